@@ -1,51 +1,79 @@
-import { useState } from 'react';
-import UserList from './components/UserList';
-import AccountList from './components/AccountList';
+import { Navigate, Route, Routes } from 'react-router-dom';
+import ApprovalsInbox from './components/ApprovalsInbox';
+import ApprovalsLink from './components/ApprovalsLink';
+import CommandPalette from './components/CommandPalette';
+import KeyboardShortcutsDialog from './components/KeyboardShortcutsDialog';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import LoginPage from './components/LoginPage';
+import OperatorMenu from './components/OperatorMenu';
+import RequireAuth from './components/RequireAuth';
+import StepUpDialog from './components/StepUpDialog';
+import TenantSwitcher from './components/TenantSwitcher';
+import ThemeToggle from './components/ThemeToggle';
+import UserWorkspace from './components/UserWorkspace';
+import { useTenant } from './hooks/use-tenant';
+import { useTranslation } from './hooks/use-translation';
 
 function App() {
-  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
-
-  const handleUserSelect = (userId: string) => {
-    setSelectedUserId(userId);
-  };
+  const tenant = useTenant();
+  // Re-rendering from here on a language change also refreshes formatting
+  // that reads the process-wide locale, such as `formatMoney`.
+  const { t } = useTranslation();
 
   return (
-    <div className="min-h-screen bg-gray-100">
-      <header className="bg-white shadow-sm border-b border-gray-200">
+    <div className="min-h-screen bg-muted/40">
+      <header className="bg-card shadow-sm border-b border-border">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center py-6">
             <div className="flex items-center">
-              <svg className="h-8 w-8 text-blue-600 mr-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-              </svg>
-              <h1 className="text-2xl font-bold text-gray-900">Cognition One Bank</h1>
+              {tenant.logoUrl ? (
+                <img src={tenant.logoUrl} alt="" className="h-8 w-8 me-3 object-contain" />
+              ) : (
+                <svg className="h-8 w-8 text-primary me-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+                </svg>
+              )}
+              <h1 className="text-2xl font-bold text-foreground">{tenant.bankName}</h1>
             </div>
-            <div className="text-sm text-gray-500">
-              Account Management System
+            <div className="flex items-center gap-4">
+              <span className="hidden md:inline text-sm text-muted-foreground">{t('app.subtitle')}</span>
+              <TenantSwitcher />
+              <CommandPalette />
+              <ApprovalsLink />
+              <LanguageSwitcher />
+              <ThemeToggle />
+              <OperatorMenu />
             </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <div className="lg:col-span-1">
-            <UserList
-              selectedUserId={selectedUserId}
-              onUserSelect={handleUserSelect}
-            />
-          </div>
-          <div className="lg:col-span-1">
-            <AccountList userId={selectedUserId} />
-          </div>
-        </div>
+        <Routes>
+          <Route path="/login" element={<LoginPage />} />
+          <Route element={<RequireAuth />}>
+            <Route path="/" element={<Navigate to="/users" replace />} />
+            <Route path="/users" element={<UserWorkspace />} />
+            <Route path="/users/:userId" element={<UserWorkspace />} />
+            <Route path="/users/:userId/audit" element={<UserWorkspace showAudit />} />
+            <Route path="/users/:userId/accounts/:accountId" element={<UserWorkspace />} />
+            <Route path="/approvals" element={<ApprovalsInbox />} />
+            <Route path="*" element={<Navigate to="/users" replace />} />
+          </Route>
+        </Routes>
+        <StepUpDialog />
+        <KeyboardShortcutsDialog />
       </main>
 
-      <footer className="bg-white border-t border-gray-200 mt-12">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <p className="text-center text-sm text-gray-500">
-            © 2025 Cognition One Bank. All rights reserved.
+      <footer className="bg-card border-t border-border mt-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 space-y-1 text-center text-sm text-muted-foreground">
+          <p>
+            {t('app.support')} <a href={`mailto:${tenant.support.email}`} className="text-primary hover:text-primary/80">{tenant.support.email}</a>
+            {tenant.support.phone && <> · {tenant.support.phone}</>}
+            {tenant.support.hours && <> · {tenant.support.hours}</>}
           </p>
+          <p>{tenant.legal.footer.replace('{year}', String(new Date().getFullYear()))}</p>
+          {tenant.legal.disclaimer && <p className="text-xs">{tenant.legal.disclaimer}</p>}
         </div>
       </footer>
     </div>
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { fetchAccountById, queryKeys } from '../services/api';
+import { NotFoundError, toApiError } from '../services/errors';
+import { recordRecentAccount } from '../services/recent';
+import { useQuery } from '../hooks/use-query';
+import { getAccountStatusInfo, getAccountTypeInfo, statusAllows } from '../lib/account-registry';
+import { formatMoney } from '../lib/money';
+import { MASK, maskAccountId } from '../lib/permissions';
+import { usePermissions } from '../hooks/use-permission';
+import { useTranslation } from '../hooks/use-translation';
+import AuditTrail from './AuditTrail';
+import BalanceHistoryChart from './BalanceHistoryChart';
+import Can from './Can';
+import ErrorState from './ErrorState';
+import StatementExportDialog from './StatementExportDialog';
+import TransactionHistory from './TransactionHistory';
+
+interface AccountDetailProps {
+  /** The user from the route; the account must belong to them. */
+  userId: string;
+  accountId: string;
+  onBack: () => void;
+}
+
+const AccountDetail: React.FC<AccountDetailProps> = ({ userId, accountId, onBack }) => {
+  const accountQuery = useQuery(
+    queryKeys.account(accountId),
+    ({ signal }) => fetchAccountById(accountId, { signal })
+  );
+  // An account reached under another user's URL is treated as missing, so the
+  // selected user and the account on screen can never disagree.
+  const account = accountQuery.data?.userId === userId ? accountQuery.data : undefined;
+  const belongsToOtherUser = Boolean(accountQuery.data) && !account;
+  const can = usePermissions();
+  const { t, formatNumber } = useTranslation();
+  const [statementOpen, setStatementOpen] = useState(false);
+  const typeInfo = account ? getAccountTypeInfo(account.accountType) : null;
+  const statusInfo = account ? getAccountStatusInfo(account.status) : null;
+  const displayAccountId = can('accounts.viewFullId') ? accountId : maskAccountId(accountId);
+  const error = belongsToOtherUser
+    ? new NotFoundError('Account not found')
+    : accountQuery.error && !account
+      ? toApiError(accountQuery.error, t('accountDetail.loadError'))
+      : null;
+
+  useEffect(() => {
+    if (account) {
+      recordRecentAccount(account);
+    }
+  }, [account]);
+
+  const formatInterestRate = (rate: number | null | undefined): string => {
+    if (rate === null || rate === undefined) {
+      return '—';
+    }
+    return formatNumber(rate, {
+      style: 'percent',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 3,
+    });
+  };
+
+  const renderBackButton = () => (
+    <button
+      onClick={onBack}
+      className="mb-4 inline-flex items-center text-sm font-medium text-primary hover:text-primary/80"
+    >
+      <svg className="h-4 w-4 me-1 rtl:rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+      </svg>
+      {t('accountDetail.back')}
+    </button>
+  );
+
+  if (error) {
+    return (
+      <div className="bg-card rounded-lg shadow-md p-6">
+        {renderBackButton()}
+        <ErrorState
+          error={error}
+          onRetry={() => accountQuery.refetch()}
+          notFoundMessage={
+            belongsToOtherUser
+              ? t('accountDetail.otherOwner', { accountId: displayAccountId, userId })
+              : t('accountDetail.notFound', { accountId: displayAccountId })
+          }
+        />
+      </div>
+    );
+  }
+
+  if (!account || !typeInfo || !statusInfo) {
+    return (
+      <div className="bg-card rounded-lg shadow-md p-6">
+        {renderBackButton()}
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          <span className="ms-2 text-muted-foreground">{t('accountDetail.loading')}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card rounded-lg shadow-md p-6 space-y-6">
+      <div>
+        {renderBackButton()}
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">{account.accountName}</h2>
+            <div className="mt-2 flex items-center gap-2">
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${typeInfo.badgeClassName}`}>
+                {t(typeInfo.labelKey)}
+              </span>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusInfo.badgeClassName}`}>
+                {t(statusInfo.labelKey)}
+              </span>
+            </div>
+          </div>
+          <div className="text-end">
+            {can('accounts.viewBalance') ? (
+              <p className="text-2xl font-bold text-foreground">{formatMoney(account.balance)}</p>
+            ) : (
+              <p className="text-2xl font-bold text-muted-foreground" title={t('accountList.balanceHidden')}>
+                {MASK}
+              </p>
+            )}
+            {statusAllows(account, 'view') && can('statements.export') && (
+              <button
+                onClick={() => setStatementOpen(true)}
+                className="mt-2 text-sm font-medium text-primary hover:text-primary/80"
+              >
+                {t('accountDetail.exportStatement')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+        <div>
+          <dt className="text-muted-foreground">{t('accountDetail.accountId')}</dt>
+          <dd className="font-mono text-foreground break-all">{displayAccountId}</dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">{t('accountDetail.owner')}</dt>
+          <dd className="font-mono text-foreground break-all">{account.userId}</dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">{t('accountDetail.type')}</dt>
+          <dd className="text-foreground">
+            {t(typeInfo.labelKey)}
+            <span className="block text-xs text-muted-foreground">{t(typeInfo.descriptionKey)}</span>
+          </dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">{t('accountDetail.status')}</dt>
+          <dd className="text-foreground">
+            {t(statusInfo.labelKey)}
+            <span className="block text-xs text-muted-foreground">{t(statusInfo.descriptionKey)}</span>
+          </dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">{t('accountDetail.opened')}</dt>
+          <dd className="text-foreground">
+            {account.openedAt ? format(parseISO(account.openedAt), 'PP') : '—'}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">{t('accountDetail.interestRate')}</dt>
+          <dd className="text-foreground">{formatInterestRate(account.interestRate)}</dd>
+        </div>
+      </dl>
+
+      <Can permission="accounts.viewBalance">
+        <BalanceHistoryChart accountId={account.accountId} />
+      </Can>
+
+      <Can permission="transactions.view">
+        <div>
+          <h3 className="text-lg font-medium text-foreground">{t('accountDetail.transactions')}</h3>
+          <TransactionHistory accountId={account.accountId} currency={account.balance.currency} />
+        </div>
+      </Can>
+
+      <Can permission="audit.view">
+        <div>
+          <h3 className="text-lg font-medium text-foreground mb-4">{t('accountList.auditLog')}</h3>
+          <AuditTrail scope={{ type: 'account', accountId: account.accountId }} />
+        </div>
+      </Can>
+
+      <StatementExportDialog
+        account={statementOpen ? account : null}
+        onOpenChange={setStatementOpen}
+      />
+    </div>
+  );
+};
+
+export default AccountDetail;
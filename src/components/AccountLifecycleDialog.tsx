@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ApprovalRequest, ApprovalSubmission, BankAccount } from '../types';
+import { freezeAccount, queryKeys, submitForApproval } from '../services/api';
+import { CancelledError, toApiError } from '../services/errors';
+import { invalidateQueries } from '../services/queryCache';
+import { translate } from '../services/language';
+import { requestStepUp } from '../services/stepUp';
+import { LIFECYCLE_ACTIONS, LifecycleAction } from '../lib/account-lifecycle';
+import { canTransact } from '../lib/account-registry';
+import { absMoney, formatMoney, isNegative, isPositive } from '../lib/money';
+import { useTranslation } from '../hooks/use-translation';
+import ApprovalSubmitted from './ApprovalSubmitted';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+interface AccountLifecycleDialogProps {
+  account: BankAccount | null;
+  action: LifecycleAction | null;
+  accounts: BankAccount[];
+  onOpenChange: (open: boolean) => void;
+  onComplete: (updated: BankAccount) => void;
+}
+
+const createLifecycleSchema = (requiresSweep: boolean) =>
+  z
+    .object({
+      reasonCode: z.string().min(1, translate('lifecycleDialog.selectReason')),
+      note: z
+        .string()
+        .trim()
+        .min(3, translate('lifecycleDialog.noteRequired'))
+        .max(500, translate('lifecycleDialog.noteTooLong')),
+      sweepToAccountId: z.string(),
+    })
+    .superRefine((values, ctx) => {
+      if (requiresSweep && !values.sweepToAccountId) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['sweepToAccountId'],
+          message: translate('lifecycleDialog.sweepRequired'),
+        });
+      }
+    });
+
+type LifecycleFormValues = z.infer<ReturnType<typeof createLifecycleSchema>>;
+
+const DEFAULT_VALUES: LifecycleFormValues = {
+  reasonCode: '',
+  note: '',
+  sweepToAccountId: '',
+};
+
+const AccountLifecycleDialog: React.FC<AccountLifecycleDialogProps> = ({
+  account,
+  action,
+  accounts,
+  onOpenChange,
+  onComplete,
+}) => {
+  const { t } = useTranslation();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submittedApproval, setSubmittedApproval] = useState<ApprovalRequest | null>(null);
+
+  const open = account !== null && action !== null;
+  const config = action ? LIFECYCLE_ACTIONS[action] : null;
+  const isClose = action === 'close';
+  const hasOutstandingDebt = isClose && account !== null && isNegative(account.balance);
+  const requiresSweep = isClose && account !== null && isPositive(account.balance);
+  const sweepTargets = accounts.filter(
+    (candidate) =>
+      candidate.accountId !== account?.accountId &&
+      candidate.balance.currency === account?.balance.currency &&
+      canTransact(candidate, 'deposit')
+  );
+
+  const form = useForm<LifecycleFormValues>({
+    resolver: zodResolver(createLifecycleSchema(requiresSweep)),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(DEFAULT_VALUES);
+      setError(null);
+      setSubmittedApproval(null);
+    }
+  }, [open, action, account?.accountId, form]);
+
+  const handleSubmit = async (values: LifecycleFormValues) => {
+    if (!account || !action) {
+      return;
+    }
+
+    const request = { reasonCode: values.reasonCode, note: values.note };
+    const sweepToAccountId = requiresSweep ? values.sweepToAccountId : undefined;
+    try {
+      setSubmitting(true);
+      setError(null);
+      if (config?.approvalKind) {
+        const submission: ApprovalSubmission =
+          action === 'close'
+            ? { kind: 'ACCOUNT_CLOSURE', accountId: account.accountId, request: { ...request, sweepToAccountId } }
+            : { kind: 'STATUS_OVERRIDE', accountId: account.accountId, action, request };
+        const stepUpToken = await requestStepUp(t('lifecycleDialog.stepUpReason'));
+        setSubmittedApproval(await submitForApproval(submission, { stepUpToken }));
+        invalidateQueries(queryKeys.approvals());
+        return;
+      }
+
+      // Freezing is the only action without an `approvalKind`, so it is the
+      // only one applied directly.
+      onComplete(await freezeAccount(account.accountId, request));
+      onOpenChange(false);
+    } catch (err) {
+      const apiError = toApiError(err, t('lifecycleDialog.failed'));
+      if (!(apiError instanceof CancelledError)) {
+        setError(apiError.message);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !submitting && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-md">
+        {submittedApproval ? (
+          <ApprovalSubmitted approval={submittedApproval} onDone={() => onOpenChange(false)} />
+        ) : account && config && (
+          <>
+            <DialogHeader>
+              <DialogTitle>
+                {t('lifecycleDialog.title', { action: t(config.labelKey), name: account.accountName })}
+              </DialogTitle>
+              <DialogDescription>
+                {t(config.descriptionKey)}
+                {config.approvalKind && ` ${t('lifecycleDialog.needsApproval')}`}
+              </DialogDescription>
+            </DialogHeader>
+            {hasOutstandingDebt ? (
+              <>
+                <p className="text-sm text-destructive">
+                  {t('lifecycleDialog.owes', { amount: formatMoney(absMoney(account.balance)) })}
+                </p>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => onOpenChange(false)}>
+                    {t('lifecycleDialog.cancel')}
+                  </Button>
+                </DialogFooter>
+              </>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="reasonCode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('lifecycleDialog.reason')}</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder={t('lifecycleDialog.selectReason')} />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {config.reasonCodes.map((reason) => (
+                              <SelectItem key={reason.value} value={reason.value}>
+                                {t(reason.labelKey)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="note"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('lifecycleDialog.note')}</FormLabel>
+                        <FormControl>
+                          <Textarea rows={3} placeholder={t('lifecycleDialog.notePlaceholder')} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {requiresSweep && (
+                    <FormField
+                      control={form.control}
+                      name="sweepToAccountId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('lifecycleDialog.sweepTo', { amount: formatMoney(account.balance) })}</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder={t('lifecycleDialog.selectAccount')} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {sweepTargets.map((target) => (
+                                <SelectItem key={target.accountId} value={target.accountId}>
+                                  {target.accountName} ({target.accountId})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {sweepTargets.length === 0 && (
+                            <p className="text-[0.8rem] text-muted-foreground">
+                              {t('lifecycleDialog.noSweepTargets')}
+                            </p>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {error && <p className="text-sm text-destructive">{error}</p>}
+                  <DialogFooter>
+                    <Button type="button" variant="outline" disabled={submitting} onClick={() => onOpenChange(false)}>
+                      {t('lifecycleDialog.cancel')}
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant={config.destructive ? 'destructive' : 'default'}
+                      disabled={submitting || (requiresSweep && sweepTargets.length === 0)}
+                    >
+                      {submitting
+                        ? t('lifecycleDialog.saving')
+                        : config.approvalKind
+                          ? t('lifecycleDialog.submitForApproval')
+                          : t(config.labelKey)}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountLifecycleDialog;
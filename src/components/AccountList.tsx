@@ -1,191 +1,363 @@
-import React, { useState, useEffect } from 'react';
-import { BankAccount } from '../types';
-import { fetchAccountsByUserId } from '../services/api';
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { BankAccount, TransferReceipt } from '../types';
+import { fetchAccountsByUserId, queryKeys } from '../services/api';
+import { clearAccountIntent, getAccountIntent, subscribeAccountIntent } from '../services/accountIntent';
+import { toApiError } from '../services/errors';
+import { invalidateQueries, setQueryData } from '../services/queryCache';
+import { LIFECYCLE_ACTIONS, LifecycleAction } from '../lib/account-lifecycle';
+import {
+  canTransact,
+  getAccountStatusInfo,
+  getAccountTypeInfo,
+  getLifecycleActions,
+  statusAllows,
+} from '../lib/account-registry';
+import { formatMoney } from '../lib/money';
+import { MASK, maskAccountId } from '../lib/permissions';
+import { useQuery } from '../hooks/use-query';
+import { usePermissions } from '../hooks/use-permission';
+import { useRovingFocus } from '../hooks/use-roving-focus';
+import { useTranslation } from '../hooks/use-translation';
+import AccountLifecycleDialog from './AccountLifecycleDialog';
+import Can from './Can';
+import ErrorState from './ErrorState';
+import OpenAccountWizard from './OpenAccountWizard';
+import PortfolioSummary from './PortfolioSummary';
+import StatementExportDialog from './StatementExportDialog';
+import TransactionHistory from './TransactionHistory';
+import TransferDialog from './TransferDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
 
 interface AccountListProps {
   userId: string | null;
+  onAccountSelect: (accountId: string) => void;
+  onAuditOpen: () => void;
 }
 
-const AccountList: React.FC<AccountListProps> = ({ userId }) => {
-  const [accounts, setAccounts] = useState<BankAccount[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+const AccountList: React.FC<AccountListProps> = ({ userId, onAccountSelect, onAuditOpen }) => {
+  const [expandedAccountId, setExpandedAccountId] = useState<string | null>(null);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [transferSourceId, setTransferSourceId] = useState<string | null>(null);
+  const [wizardOpen, setWizardOpen] = useState(false);
+  const [statementAccountId, setStatementAccountId] = useState<string | null>(null);
+  const [lifecycleTarget, setLifecycleTarget] = useState<{ accountId: string; action: LifecycleAction } | null>(null);
+  const can = usePermissions();
+  const { t } = useTranslation();
 
+  const accountsQuery = useQuery(
+    userId ? queryKeys.accounts(userId) : null,
+    ({ signal }) => fetchAccountsByUserId(userId as string, { signal })
+  );
+  const accounts: BankAccount[] = accountsQuery.data ?? [];
+  const loading = accountsQuery.isLoading;
+  const error = accountsQuery.error && !accountsQuery.data
+    ? toApiError(accountsQuery.error, t('accountList.loadError'))
+    : null;
+
+  const { getItemProps } = useRovingFocus(accounts.length);
+
+  // Opens the dialog the command palette asked for once this user's accounts
+  // are in, re-checking the account against the fresh list first.
+  const accountIntent = useSyncExternalStore(subscribeAccountIntent, getAccountIntent);
+  const loadedAccounts = accountsQuery.data;
   useEffect(() => {
-    if (userId) {
-      loadAccounts(userId);
-    } else {
-      setAccounts([]);
-      setError(null);
+    if (!accountIntent || accountIntent.userId !== userId || !loadedAccounts) {
+      return;
     }
-  }, [userId]);
-
-  const loadAccounts = async (userId: string) => {
-    try {
-      setLoading(true);
-      setError(null);
-      const accountData = await fetchAccountsByUserId(userId);
-      setAccounts(accountData);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load accounts');
-    } finally {
-      setLoading(false);
+    clearAccountIntent();
+    const account = loadedAccounts.find((candidate) => candidate.accountId === accountIntent.accountId);
+    if (!account) {
+      return;
     }
-  };
+    if (accountIntent.action === 'transfer') {
+      if (loadedAccounts.length > 1 && canTransact(account, 'transfer')) {
+        setTransferSourceId(account.accountId);
+        setTransferOpen(true);
+      }
+    } else if (statusAllows(account, accountIntent.action)) {
+      setLifecycleTarget({ accountId: account.accountId, action: accountIntent.action });
+    }
+  }, [accountIntent, userId, loadedAccounts]);
 
   const handleRetry = () => {
-    if (userId) {
-      loadAccounts(userId);
-    }
+    accountsQuery.refetch();
   };
 
-  const formatBalance = (balance: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(balance);
+  const handleTransferStart = (accountId: string) => {
+    setTransferSourceId(accountId);
+    setTransferOpen(true);
   };
 
-  const getAccountTypeIcon = (accountType: string) => {
-    switch (accountType.toUpperCase()) {
-      case 'CHECKING':
-        return (
-          <svg className="h-6 w-6 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
-          </svg>
-        );
-      case 'SAVINGS':
-        return (
-          <svg className="h-6 w-6 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-          </svg>
-        );
-      case 'CREDIT':
-        return (
-          <svg className="h-6 w-6 text-purple-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
-          </svg>
-        );
-      default:
-        return (
-          <svg className="h-6 w-6 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-          </svg>
-        );
+  const handleTransferComplete = (receipt: TransferReceipt) => {
+    if (userId) {
+      invalidateQueries(queryKeys.accounts(userId));
+    }
+    for (const accountId of [receipt.sourceAccountId, receipt.destinationAccountId]) {
+      invalidateQueries(queryKeys.account(accountId));
+      invalidateQueries(queryKeys.transactions(accountId));
+      invalidateQueries(queryKeys.balanceHistory(accountId));
     }
   };
 
-  const getAccountTypeColor = (accountType: string) => {
-    switch (accountType.toUpperCase()) {
-      case 'CHECKING':
-        return 'bg-green-100 text-green-800';
-      case 'SAVINGS':
-        return 'bg-blue-100 text-blue-800';
-      case 'CREDIT':
-        return 'bg-purple-100 text-purple-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
+  const handleLifecycleComplete = (updated: BankAccount) => {
+    if (userId) {
+      setQueryData<BankAccount[]>(queryKeys.accounts(userId), (current) =>
+        (current ?? []).map((account) => (account.accountId === updated.accountId ? updated : account))
+      );
+      invalidateQueries(queryKeys.accounts(userId));
     }
+    invalidateQueries(queryKeys.account(updated.accountId));
+  };
+
+  const handleToggleTransactions = (accountId: string) => {
+    setExpandedAccountId(expandedAccountId === accountId ? null : accountId);
   };
 
   if (!userId) {
     return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-800">Bank Accounts</h2>
-        <div className="text-center py-12 text-gray-500">
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4 text-foreground">{t('accountList.title')}</h2>
+        <div className="text-center py-12 text-muted-foreground">
           <svg className="mx-auto h-16 w-16 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
           </svg>
-          <p className="text-lg">Select a user to view their accounts</p>
+          <p className="text-lg">{t('accountList.selectUser')}</p>
         </div>
       </div>
     );
   }
 
-  if (loading) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-800">Bank Accounts for {userId}</h2>
+  const renderBody = () => {
+    if (loading) {
+      return (
         <div className="flex items-center justify-center py-8">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-          <span className="ml-2 text-gray-600">Loading accounts...</span>
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          <span className="ms-2 text-muted-foreground">{t('accountList.loading')}</span>
         </div>
-      </div>
-    );
-  }
+      );
+    }
 
-  if (error) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-800">Bank Accounts for {userId}</h2>
-        <div className="text-center py-8">
-          <div className="text-red-600 mb-4">
-            <svg className="mx-auto h-12 w-12 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L4.268 18.5c-.77.833.192 2.5 1.732 2.5z" />
-            </svg>
-            <p className="text-sm">{error}</p>
-          </div>
-          <button
-            onClick={handleRetry}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
-          >
-            Try Again
-          </button>
-        </div>
-      </div>
-    );
-  }
+    if (error) {
+      return (
+        <ErrorState
+          error={error}
+          onRetry={handleRetry}
+          notFoundMessage={t('accountList.userNotFound', { userId })}
+        />
+      );
+    }
 
-  if (accounts.length === 0) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-800">Bank Accounts for {userId}</h2>
-        <div className="text-center py-8 text-gray-500">
+    if (accounts.length === 0) {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
           <svg className="mx-auto h-12 w-12 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
           </svg>
-          <p>No accounts found for this user</p>
+          <p>{t('accountList.empty')}</p>
         </div>
-      </div>
-    );
-  }
+      );
+    }
 
-  return (
-    <div className="bg-white rounded-lg shadow-md p-6">
-      <h2 className="text-xl font-semibold mb-4 text-gray-800">Bank Accounts for {userId}</h2>
-      <div className="space-y-4">
-        {accounts.map((account) => (
-          <div
-            key={account.accountId}
-            className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow"
-          >
-            <div className="flex items-start justify-between">
-              <div className="flex items-start space-x-3">
-                <div className="flex-shrink-0 mt-1">
-                  {getAccountTypeIcon(account.accountType)}
-                </div>
-                <div className="flex-1">
-                  <h3 className="text-lg font-medium text-gray-900">{account.accountName}</h3>
-                  <p className="text-sm text-gray-500">Account ID: {account.accountId}</p>
-                  <div className="mt-2 flex items-center space-x-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getAccountTypeColor(account.accountType)}`}>
-                      {account.accountType}
-                    </span>
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      account.status === 'ACTIVE' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                    }`}>
-                      {account.status}
-                    </span>
+    return (
+      <>
+        <Can permission="accounts.viewBalance">
+          <PortfolioSummary accounts={accounts} />
+        </Can>
+        <div className="space-y-4">
+          {accounts.map((account, index) => {
+            const typeInfo = getAccountTypeInfo(account.accountType);
+            const statusInfo = getAccountStatusInfo(account.status);
+            const lifecycleActions = getLifecycleActions(account.status).filter((action) =>
+              can(`accounts.${action}`)
+            );
+            const cardProps = getItemProps(index);
+            return (
+              <div
+                key={account.accountId}
+                {...cardProps}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter' && event.target === event.currentTarget && statusAllows(account, 'view')) {
+                    event.preventDefault();
+                    onAccountSelect(account.accountId);
+                    return;
+                  }
+                  cardProps.onKeyDown(event);
+                }}
+                role="group"
+                aria-label={account.accountName}
+                className="border border-border rounded-lg p-4 hover:shadow-md transition-shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-shrink-0 mt-1">
+                      <svg className={`h-6 w-6 ${typeInfo.iconClassName}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={typeInfo.iconPath} />
+                      </svg>
+                    </div>
+                    <div className="flex-1">
+                      <h3 className="text-lg font-medium text-foreground">
+                        <button
+                          onClick={() => onAccountSelect(account.accountId)}
+                          disabled={!statusAllows(account, 'view')}
+                          className="text-start hover:text-primary hover:underline disabled:no-underline disabled:text-muted-foreground"
+                        >
+                          {account.accountName}
+                        </button>
+                      </h3>
+                      <p className="text-sm text-muted-foreground">
+                        {t('accountList.accountId', {
+                          accountId: can('accounts.viewFullId') ? account.accountId : maskAccountId(account.accountId),
+                        })}
+                      </p>
+                      <div className="mt-2 flex items-center gap-4">
+                        <span
+                          title={t(typeInfo.descriptionKey)}
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${typeInfo.badgeClassName}`}
+                        >
+                          {t(typeInfo.labelKey)}
+                        </span>
+                        <span
+                          title={t(statusInfo.descriptionKey)}
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusInfo.badgeClassName}`}
+                        >
+                          {t(statusInfo.labelKey)}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-end">
+                    {can('accounts.viewBalance') ? (
+                      <p className="text-2xl font-bold text-foreground">{formatMoney(account.balance)}</p>
+                    ) : (
+                      <p className="text-2xl font-bold text-muted-foreground" title={t('accountList.balanceHidden')}>
+                        {MASK}
+                      </p>
+                    )}
+                    <div className="mt-2 flex items-center justify-end gap-3">
+                      {accounts.length > 1 && canTransact(account, 'transfer') && can('transfers.create') && (
+                        <button
+                          onClick={() => handleTransferStart(account.accountId)}
+                          className="text-sm font-medium text-primary hover:text-primary/80"
+                        >
+                          {t('accountList.transfer')}
+                        </button>
+                      )}
+                      {statusAllows(account, 'view') && can('transactions.view') && (
+                        <button
+                          onClick={() => handleToggleTransactions(account.accountId)}
+                          aria-expanded={expandedAccountId === account.accountId}
+                          className="text-sm font-medium text-primary hover:text-primary/80"
+                        >
+                          {expandedAccountId === account.accountId
+                            ? t('accountList.hideTransactions')
+                            : t('accountList.viewTransactions')}
+                        </button>
+                      )}
+                      {statusAllows(account, 'view') && can('statements.export') && (
+                        <button
+                          onClick={() => setStatementAccountId(account.accountId)}
+                          className="text-sm font-medium text-primary hover:text-primary/80"
+                        >
+                          {t('accountList.statement')}
+                        </button>
+                      )}
+                      {lifecycleActions.length > 0 && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger
+                            aria-label={t('accountList.actionsFor', { name: account.accountName })}
+                            className="text-muted-foreground hover:text-foreground"
+                          >
+                            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h.01M12 12h.01M19 12h.01" />
+                            </svg>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>{t('accountList.statusMenu')}</DropdownMenuLabel>
+                            <DropdownMenuSeparator />
+                            {lifecycleActions.map((action) => (
+                              <DropdownMenuItem
+                                key={action}
+                                onSelect={() => setLifecycleTarget({ accountId: account.accountId, action })}
+                                className={LIFECYCLE_ACTIONS[action].destructive ? 'text-destructive focus:text-destructive' : ''}
+                              >
+                                {t(LIFECYCLE_ACTIONS[action].labelKey)}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </div>
                   </div>
                 </div>
+                {expandedAccountId === account.accountId && (
+                  <TransactionHistory accountId={account.accountId} currency={account.balance.currency} />
+                )}
               </div>
-              <div className="text-right">
-                <p className="text-2xl font-bold text-gray-900">{formatBalance(account.balance)}</p>
-              </div>
-            </div>
+            );
+          })}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-foreground">{t('accountList.titleForUser', { userId })}</h2>
+        {!loading && !error && (
+          <div className="flex items-center gap-3">
+            <Can permission="audit.view">
+              <button onClick={onAuditOpen} className="text-sm font-medium text-primary hover:text-primary/80">
+                {t('accountList.auditLog')}
+              </button>
+            </Can>
+            <Can permission="accounts.open">
+              {(allowed) => (
+                <button
+                  onClick={() => setWizardOpen(true)}
+                  disabled={!allowed}
+                  title={allowed ? undefined : t('accountList.cannotOpen')}
+                  className="bg-primary hover:bg-primary/90 text-primary-foreground px-3 py-1.5 rounded-md text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {t('accountList.openAccount')}
+                </button>
+              )}
+            </Can>
           </div>
-        ))}
+        )}
       </div>
+      {renderBody()}
+      <TransferDialog
+        open={transferOpen}
+        accounts={accounts}
+        sourceAccountId={transferSourceId}
+        onOpenChange={setTransferOpen}
+        onTransferComplete={handleTransferComplete}
+      />
+      <AccountLifecycleDialog
+        account={accounts.find((account) => account.accountId === lifecycleTarget?.accountId) ?? null}
+        action={lifecycleTarget?.action ?? null}
+        accounts={accounts}
+        onOpenChange={(isOpen) => !isOpen && setLifecycleTarget(null)}
+        onComplete={handleLifecycleComplete}
+      />
+      <StatementExportDialog
+        account={accounts.find((account) => account.accountId === statementAccountId) ?? null}
+        onOpenChange={(isOpen) => !isOpen && setStatementAccountId(null)}
+      />
+      <OpenAccountWizard
+        open={wizardOpen}
+        userId={userId}
+        accounts={accounts}
+        onOpenChange={setWizardOpen}
+      />
     </div>
   );
 };
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { ApprovalDecision, ApprovalRequest } from '../types';
+import { decideApproval, queryKeys } from '../services/api';
+import { CancelledError, toApiError } from '../services/errors';
+import { invalidateQueries } from '../services/queryCache';
+import { requestStepUp } from '../services/stepUp';
+import { accountPath } from '../services/accountRefs';
+import { APPROVAL_KIND_REGISTRY, APPROVAL_STATUS_REGISTRY } from '../lib/approvals';
+import { usePermission } from '../hooks/use-permission';
+import { useSession } from '../hooks/use-session';
+import ChangeDiff from './ChangeDiff';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+
+interface ApprovalCardProps {
+  approval: ApprovalRequest;
+}
+
+const MIN_REJECT_COMMENT_LENGTH = 3;
+
+const formatTimestamp = (value: string) => format(parseISO(value), 'PPp');
+
+const ApprovalCard: React.FC<ApprovalCardProps> = ({ approval }) => {
+  const session = useSession();
+  const canReview = usePermission('approvals.review');
+  const canViewFullId = usePermission('accounts.viewFullId');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState<ApprovalDecision['decision'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const kindInfo = APPROVAL_KIND_REGISTRY[approval.kind];
+  const statusInfo = APPROVAL_STATUS_REGISTRY[approval.status];
+  const isOwnRequest = session?.operator.username === approval.initiatedBy.username;
+  const reviewable = approval.status === 'PENDING' && canReview;
+
+  const handleDecision = async (decision: ApprovalDecision['decision']) => {
+    const trimmed = comment.trim();
+    if (decision === 'REJECT' && trimmed.length < MIN_REJECT_COMMENT_LENGTH) {
+      setError('Add a comment explaining the rejection');
+      return;
+    }
+
+    try {
+      setSubmitting(decision);
+      setError(null);
+      const stepUpToken = await requestStepUp(
+        `Verify your identity to ${decision === 'APPROVE' ? 'approve' : 'reject'} this request.`
+      );
+      await decideApproval(approval.approvalId, { decision, comment: trimmed }, { stepUpToken });
+      invalidateQueries(queryKeys.approvals());
+      invalidateQueries(queryKeys.accounts(approval.userId));
+      invalidateQueries(queryKeys.account(approval.accountId));
+      invalidateQueries(queryKeys.transactions(approval.accountId));
+      invalidateQueries(queryKeys.balanceHistory(approval.accountId));
+    } catch (err) {
+      const apiError = toApiError(err, 'Failed to record decision');
+      if (!(apiError instanceof CancelledError)) {
+        setError(apiError.message);
+      }
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{kindInfo.label}</p>
+          <h3 className="text-base font-medium text-foreground">{approval.summary}</h3>
+          <p className="text-sm text-muted-foreground">
+            Requested by {approval.initiatedBy.displayName} on {formatTimestamp(approval.createdAt)} ·{' '}
+            <Link
+              to={accountPath(approval.userId, approval.accountId, canViewFullId)}
+              className="text-primary hover:text-primary/80"
+            >
+              View account
+            </Link>
+          </p>
+        </div>
+        <span
+          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusInfo.badgeClassName}`}
+        >
+          {statusInfo.label}
+        </span>
+      </div>
+
+      <ChangeDiff changes={approval.changes} />
+
+      {approval.reviewedBy && (
+        <p className="text-sm text-muted-foreground">
+          {statusInfo.label} by {approval.reviewedBy.displayName}
+          {approval.reviewedAt && ` on ${formatTimestamp(approval.reviewedAt)}`}
+          {approval.reviewComment && `: "${approval.reviewComment}"`}
+        </p>
+      )}
+
+      {reviewable &&
+        (isOwnRequest ? (
+          <p className="rounded-md bg-muted/50 px-3 py-2 text-sm text-muted-foreground">
+            You submitted this request, so a different checker must review it.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <Textarea
+              rows={2}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Comment for the audit trail (required to reject)"
+              aria-label={`Review comment for request ${approval.approvalId}`}
+              maxLength={500}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" disabled={submitting !== null} onClick={() => handleDecision('REJECT')}>
+                {submitting === 'REJECT' ? 'Rejecting...' : 'Reject'}
+              </Button>
+              <Button disabled={submitting !== null} onClick={() => handleDecision('APPROVE')}>
+                {submitting === 'APPROVE' ? 'Approving...' : 'Approve'}
+              </Button>
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default ApprovalCard;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { ApprovalRequest } from '../types';
+import ChangeDiff from './ChangeDiff';
+import { Button } from './ui/button';
+import { DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+
+interface ApprovalSubmittedProps {
+  approval: ApprovalRequest;
+  onDone: () => void;
+}
+
+/** Dialog body shown to the initiator once a change has gone to the approvals inbox. */
+const ApprovalSubmitted: React.FC<ApprovalSubmittedProps> = ({ approval, onDone }) => (
+  <>
+    <DialogHeader>
+      <DialogTitle>Sent for approval</DialogTitle>
+      <DialogDescription>
+        Nothing changes until a different supervisor or administrator approves it in the Approvals inbox.
+      </DialogDescription>
+    </DialogHeader>
+    <p className="text-sm text-muted-foreground">
+      Request <span className="font-mono font-medium">{approval.approvalId}</span>: {approval.summary}
+    </p>
+    <ChangeDiff changes={approval.changes} />
+    <DialogFooter>
+      <Button onClick={onDone}>Done</Button>
+    </DialogFooter>
+  </>
+);
+
+export default ApprovalSubmitted;
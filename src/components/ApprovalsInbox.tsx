@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { ApprovalRequest, ApprovalStatus } from '../types';
+import { fetchApprovals, queryKeys } from '../services/api';
+import { toApiError } from '../services/errors';
+import { APPROVAL_STATUS_REGISTRY } from '../lib/approvals';
+import { useQuery } from '../hooks/use-query';
+import { usePermission } from '../hooks/use-permission';
+import ApprovalCard from './ApprovalCard';
+import ErrorState from './ErrorState';
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
+
+const INBOX_TABS: ApprovalStatus[] = ['PENDING', 'APPROVED', 'REJECTED'];
+
+const ApprovalsInbox: React.FC = () => {
+  const [status, setStatus] = useState<ApprovalStatus>('PENDING');
+  const canView = usePermission('approvals.view');
+  const canReview = usePermission('approvals.review');
+
+  const approvalsQuery = useQuery(
+    canView ? queryKeys.approvals(status) : null,
+    ({ signal }) => fetchApprovals(status, { signal })
+  );
+  const approvals: ApprovalRequest[] = approvalsQuery.data ?? [];
+  const error = approvalsQuery.error && !approvalsQuery.data
+    ? toApiError(approvalsQuery.error, 'Failed to load approvals')
+    : null;
+
+  const renderBody = () => {
+    if (!canView) {
+      return <p className="text-center py-8 text-muted-foreground">Your role does not have access to approvals.</p>;
+    }
+
+    if (approvalsQuery.isLoading) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          <span className="ms-2 text-muted-foreground">Loading approvals...</span>
+        </div>
+      );
+    }
+
+    if (error) {
+      return <ErrorState error={error} onRetry={() => approvalsQuery.refetch()} />;
+    }
+
+    if (approvals.length === 0) {
+      return (
+        <p className="text-center py-8 text-muted-foreground">
+          No {APPROVAL_STATUS_REGISTRY[status].label.toLowerCase()} requests
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {approvals.map((approval) => (
+          <ApprovalCard key={approval.approvalId} approval={approval} />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Approvals</h2>
+          <p className="text-sm text-muted-foreground">
+            {canReview
+              ? 'Review high-risk changes submitted by other operators.'
+              : 'Track the high-risk changes you have submitted for review.'}
+          </p>
+        </div>
+        {canView && (
+          <Tabs value={status} onValueChange={(value) => setStatus(value as ApprovalStatus)}>
+            <TabsList>
+              {INBOX_TABS.map((tab) => (
+                <TabsTrigger key={tab} value={tab}>
+                  {APPROVAL_STATUS_REGISTRY[tab].label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
+      </div>
+      {renderBody()}
+    </div>
+  );
+};
+
+export default ApprovalsInbox;
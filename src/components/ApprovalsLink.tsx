@@ -0,0 +1,46 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { fetchApprovals, queryKeys } from '../services/api';
+import { useQuery } from '../hooks/use-query';
+import { usePermission } from '../hooks/use-permission';
+import { useTranslation } from '../hooks/use-translation';
+
+/** Header link to the approvals inbox, with a count of requests awaiting a checker. */
+const ApprovalsLink: React.FC = () => {
+  const { t } = useTranslation();
+  const canView = usePermission('approvals.view');
+  const canReview = usePermission('approvals.review');
+
+  const pendingQuery = useQuery(
+    canReview ? queryKeys.approvals('PENDING') : null,
+    ({ signal }) => fetchApprovals('PENDING', { signal })
+  );
+  const pendingCount = pendingQuery.data?.length ?? 0;
+
+  if (!canView) {
+    return null;
+  }
+
+  return (
+    <NavLink
+      to="/approvals"
+      className={({ isActive }) =>
+        `inline-flex items-center rounded-md px-2 py-1 text-sm font-medium ${
+          isActive ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-accent'
+        }`
+      }
+    >
+      {t('approvals.link')}
+      {pendingCount > 0 && (
+        <span
+          aria-label={t('approvals.pendingCount', { count: pendingCount })}
+          className="ms-1.5 inline-flex min-w-[1.25rem] justify-center rounded-full bg-destructive px-1.5 text-xs font-semibold text-destructive-foreground"
+        >
+          {pendingCount}
+        </span>
+      )}
+    </NavLink>
+  );
+};
+
+export default ApprovalsLink;
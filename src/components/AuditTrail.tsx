@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { AuditEvent, AuditEventType, AuditFilters, AuditScope } from '../types';
+import { auditEventTypeSchema } from '../types/schemas';
+import { EXPORT_ROW_LIMIT, fetchAllAuditEvents, fetchAuditEvents, queryKeys } from '../services/api';
+import { toApiError } from '../services/errors';
+import { useQuery } from '../hooks/use-query';
+import { useDebouncedCallback } from '../hooks/use-debounced-callback';
+import { useTranslation } from '../hooks/use-translation';
+import { auditEventsToCsv, getAuditEventTypeInfo } from '../lib/audit';
+import { downloadCsv } from '../lib/csv';
+import ErrorState from './ErrorState';
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from './ui/pagination';
+
+interface AuditTrailProps {
+  scope: AuditScope;
+}
+
+const EVENT_TYPES = auditEventTypeSchema.options.filter((type) => type !== 'UNKNOWN');
+
+const ALL_TYPES = 'ALL';
+const PAGE_SIZE = 20;
+const ACTOR_DEBOUNCE_MS = 300;
+
+const AuditTrail: React.FC<AuditTrailProps> = ({ scope }) => {
+  const { t } = useTranslation();
+  const [currentPage, setCurrentPage] = useState(0);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [eventType, setEventType] = useState<string>(ALL_TYPES);
+  const [actorInput, setActorInput] = useState('');
+  const [actor, setActor] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [exportMessage, setExportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const [commitActor, cancelActorCommit] = useDebouncedCallback((value: string) => {
+    setActor(value);
+    setCurrentPage(0);
+  }, ACTOR_DEBOUNCE_MS);
+
+  const filters: AuditFilters = {};
+  if (dateRange?.from) {
+    filters.from = format(dateRange.from, 'yyyy-MM-dd');
+  }
+  if (dateRange?.to) {
+    filters.to = format(dateRange.to, 'yyyy-MM-dd');
+  }
+  if (eventType !== ALL_TYPES) {
+    filters.eventType = eventType as AuditEventType;
+  }
+  if (actor) {
+    filters.actor = actor;
+  }
+
+  const eventsQuery = useQuery(
+    queryKeys.auditEvents(scope, { page: currentPage, size: PAGE_SIZE, filters }),
+    ({ signal }) => fetchAuditEvents(scope, currentPage, PAGE_SIZE, filters, { signal }),
+    { keepPreviousData: true }
+  );
+  const events: AuditEvent[] = eventsQuery.data?.content ?? [];
+  const totalPages = eventsQuery.data?.totalPages ?? 0;
+  const totalElements = eventsQuery.data?.totalElements ?? 0;
+  const loading = eventsQuery.isLoading && !eventsQuery.data;
+  const error = eventsQuery.error && (!eventsQuery.data || eventsQuery.isPreviousData)
+    ? toApiError(eventsQuery.error, t('audit.loadError'))
+    : null;
+
+  const handleFilterChange = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCurrentPage(0);
+  };
+
+  const handleResetFilters = () => {
+    cancelActorCommit();
+    setCurrentPage(0);
+    setDateRange(undefined);
+    setEventType(ALL_TYPES);
+    setActorInput('');
+    setActor('');
+  };
+
+  const formatDateRange = (range: DateRange | undefined): string => {
+    if (!range?.from) {
+      return t('audit.anyDate');
+    }
+    if (!range.to) {
+      return format(range.from, 'PP');
+    }
+    return `${format(range.from, 'PP')} – ${format(range.to, 'PP')}`;
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      setExportMessage(null);
+      const { items: allEvents, totalElements: matching } = await fetchAllAuditEvents(scope, filters);
+      const subject = scope.type === 'user' ? `user-${scope.userId}` : `account-${scope.accountId}`;
+      downloadCsv(`audit-${subject}-${format(new Date(), 'yyyyMMdd-HHmm')}.csv`, auditEventsToCsv(allEvents, t));
+      if (matching > allEvents.length) {
+        setExportMessage({
+          text: t('audit.exportTruncated', { limit: EXPORT_ROW_LIMIT, total: matching }),
+          isError: false,
+        });
+      }
+    } catch (err) {
+      setExportMessage({ text: toApiError(err, t('audit.exportError')).message, isError: true });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderChanges = (event: AuditEvent) =>
+    event.changes.length > 0 && (
+      <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+        {event.changes.map((change) => (
+          <li key={change.field}>
+            <span className="font-medium">{change.label}:</span>{' '}
+            <span className="text-destructive line-through decoration-destructive/40">{change.before ?? t('audit.none')}</span>
+            {' → '}
+            <span className="text-green-800 dark:text-green-400">{change.after ?? t('audit.none')}</span>
+          </li>
+        ))}
+      </ul>
+    );
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          <span className="ms-2 text-sm text-muted-foreground">{t('audit.loading')}</span>
+        </div>
+      );
+    }
+
+    if (error) {
+      return <ErrorState error={error} onRetry={() => eventsQuery.refetch()} />;
+    }
+
+    if (events.length === 0) {
+      return <p className="text-center py-6 text-sm text-muted-foreground">{t('audit.noMatches')}</p>;
+    }
+
+    return (
+      <Table className={`transition-opacity ${eventsQuery.isPreviousData ? 'opacity-60' : ''}`}>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t('audit.when')}</TableHead>
+            <TableHead>{t('audit.event')}</TableHead>
+            <TableHead>{t('audit.actor')}</TableHead>
+            <TableHead>{t('audit.details')}</TableHead>
+            <TableHead>{t('audit.requestId')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {events.map((event) => {
+            const typeInfo = getAuditEventTypeInfo(event.eventType);
+            return (
+              <TableRow key={event.eventId} className="align-top">
+                <TableCell className="whitespace-nowrap">
+                  {format(parseISO(event.timestamp), 'PPpp')}
+                </TableCell>
+                <TableCell>
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${typeInfo.badgeClassName}`}
+                  >
+                    {t(typeInfo.labelKey)}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  {event.actor.displayName}
+                  <span className="block text-xs text-muted-foreground">{event.actor.username}</span>
+                </TableCell>
+                <TableCell>
+                  {event.description}
+                  {scope.type === 'user' && event.accountId && (
+                    <span className="block text-xs text-muted-foreground">
+                      {t('audit.account', { accountId: event.accountId })}
+                    </span>
+                  )}
+                  {renderChanges(event)}
+                </TableCell>
+                <TableCell className="font-mono text-xs text-muted-foreground">{event.requestId ?? '—'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-2 mb-4">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="font-normal">
+              {formatDateRange(dateRange)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar mode="range" selected={dateRange} onSelect={handleFilterChange(setDateRange)} numberOfMonths={2} />
+          </PopoverContent>
+        </Popover>
+        <Select value={eventType} onValueChange={handleFilterChange(setEventType)}>
+          <SelectTrigger className="h-8 w-40" aria-label={t('audit.eventType')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>{t('audit.allEvents')}</SelectItem>
+            {EVENT_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {t(getAuditEventTypeInfo(type).labelKey)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder={t('audit.actorPlaceholder')}
+          value={actorInput}
+          onChange={(e) => {
+            setActorInput(e.target.value);
+            commitActor(e.target.value.trim());
+          }}
+          aria-label={t('audit.filterByActor')}
+          className="h-8 w-40"
+        />
+        <Button variant="ghost" size="sm" onClick={handleResetFilters}>
+          {t('audit.reset')}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ms-auto"
+          disabled={exporting || totalElements === 0}
+          onClick={handleExport}
+        >
+          {exporting ? t('audit.exporting') : t('audit.export')}
+        </Button>
+      </div>
+
+      {exportMessage && (
+        <p className={`mb-4 text-sm ${exportMessage.isError ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {exportMessage.text}
+        </p>
+      )}
+
+      {renderBody()}
+
+      {totalPages > 1 && (
+        <Pagination className="mt-4">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-label={t('pagination.previousPage')}
+                onClick={(e) => {
+                  e.preventDefault();
+                  if (currentPage > 0) {
+                    setCurrentPage(currentPage - 1);
+                  }
+                }}
+                aria-disabled={currentPage === 0}
+                className={currentPage === 0 ? 'pointer-events-none opacity-50' : ''}
+              >
+                {t('pagination.previous')}
+              </PaginationPrevious>
+            </PaginationItem>
+            <PaginationItem>
+              <span className="px-3 text-sm text-muted-foreground">
+                {t('audit.pageOf', { page: currentPage + 1, total: totalPages })}
+              </span>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-label={t('pagination.nextPage')}
+                onClick={(e) => {
+                  e.preventDefault();
+                  if (currentPage < totalPages - 1) {
+                    setCurrentPage(currentPage + 1);
+                  }
+                }}
+                aria-disabled={currentPage >= totalPages - 1}
+                className={currentPage >= totalPages - 1 ? 'pointer-events-none opacity-50' : ''}
+              >
+                {t('pagination.next')}
+              </PaginationNext>
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default AuditTrail;
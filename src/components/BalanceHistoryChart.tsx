@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { format, parseISO, subDays, subYears } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { DateRangeParams } from '../types';
+import { fetchBalanceHistory, queryKeys } from '../services/api';
+import { toApiError } from '../services/errors';
+import { useQuery } from '../hooks/use-query';
+import { useTenant } from '../hooks/use-tenant';
+import { useTranslation } from '../hooks/use-translation';
+import { CHART_TOOLTIP_CONTENT_STYLE } from '../lib/chart';
+import type { MessageKey } from '../locales';
+import { formatMoney, fromMajor, toMajor } from '../lib/money';
+import ErrorState from './ErrorState';
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+
+type TimeWindow = '30d' | '90d' | '1y' | 'custom';
+
+const TIME_WINDOWS: { value: TimeWindow; labelKey: MessageKey }[] = [
+  { value: '30d', labelKey: 'balanceHistory.30d' },
+  { value: '90d', labelKey: 'balanceHistory.90d' },
+  { value: '1y', labelKey: 'balanceHistory.1y' },
+  { value: 'custom', labelKey: 'balanceHistory.custom' },
+];
+
+interface BalanceHistoryChartProps {
+  accountId: string;
+}
+
+const toDateParam = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const getRange = (timeWindow: TimeWindow, customRange: DateRange | undefined): DateRangeParams | null => {
+  const today = new Date();
+  switch (timeWindow) {
+    case '30d':
+      return { from: toDateParam(subDays(today, 30)), to: toDateParam(today) };
+    case '90d':
+      return { from: toDateParam(subDays(today, 90)), to: toDateParam(today) };
+    case '1y':
+      return { from: toDateParam(subYears(today, 1)), to: toDateParam(today) };
+    case 'custom':
+      if (!customRange?.from || !customRange.to) {
+        return null;
+      }
+      return { from: toDateParam(customRange.from), to: toDateParam(customRange.to) };
+  }
+};
+
+const BalanceHistoryChart: React.FC<BalanceHistoryChartProps> = ({ accountId }) => {
+  const tenant = useTenant();
+  const { t, formatDate } = useTranslation();
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>('30d');
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+
+  const range = getRange(timeWindow, customRange);
+  const historyQuery = useQuery(
+    range ? queryKeys.balanceHistory(accountId, range) : null,
+    ({ signal }) => fetchBalanceHistory(accountId, range as DateRangeParams, { signal }),
+    { keepPreviousData: true }
+  );
+  const points = historyQuery.data ?? [];
+  const currency = points[0]?.balance.currency ?? tenant.currency;
+  const chartData = points.map((point) => ({ date: point.date, balance: toMajor(point.balance) }));
+  const error = historyQuery.error && (!historyQuery.data || historyQuery.isPreviousData)
+    ? toApiError(historyQuery.error, t('balanceHistory.loadError'))
+    : null;
+
+  const formatBalance = (balance: number): string => formatMoney(fromMajor(balance, currency));
+
+  const formatAxisBalance = (balance: number): string =>
+    formatMoney(fromMajor(balance, currency), { notation: 'compact' });
+
+  const renderChart = () => {
+    if (!range) {
+      return <p className="text-center py-12 text-sm text-muted-foreground">{t('balanceHistory.pickDates')}</p>;
+    }
+
+    if (error) {
+      return <ErrorState error={error} onRetry={() => historyQuery.refetch()} />;
+    }
+
+    if (historyQuery.isLoading && !historyQuery.data) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          <span className="ms-2 text-sm text-muted-foreground">{t('balanceHistory.loading')}</span>
+        </div>
+      );
+    }
+
+    if (points.length === 0) {
+      return <p className="text-center py-12 text-sm text-muted-foreground">{t('balanceHistory.empty')}</p>;
+    }
+
+    return (
+      <div className={`h-64 transition-opacity ${historyQuery.isPreviousData ? 'opacity-60' : ''}`}>
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+            <defs>
+              <linearGradient id={`balance-fill-${accountId}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" vertical={false} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={(value: string) => formatDate(parseISO(value), { month: 'short', day: 'numeric' })}
+              tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+              minTickGap={24}
+            />
+            <YAxis
+              tickFormatter={formatAxisBalance}
+              tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+              width={64}
+            />
+            <Tooltip
+              formatter={(value: number) => [formatBalance(value), t('balanceHistory.balance')]}
+              labelFormatter={(label: string) => format(parseISO(label), 'PP')}
+              contentStyle={CHART_TOOLTIP_CONTENT_STYLE}
+            />
+            <Area
+              type="monotone"
+              dataKey="balance"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              fill={`url(#balance-fill-${accountId})`}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-medium text-foreground">{t('balanceHistory.title')}</h3>
+        <div className="flex items-center gap-2">
+          {timeWindow === 'custom' && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="font-normal">
+                  {customRange?.from && customRange.to
+                    ? `${format(customRange.from, 'PP')} – ${format(customRange.to, 'PP')}`
+                    : t('balanceHistory.selectDates')}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  selected={customRange}
+                  onSelect={setCustomRange}
+                  numberOfMonths={2}
+                  disabled={{ after: new Date() }}
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={timeWindow}
+            onValueChange={(value) => value && setTimeWindow(value as TimeWindow)}
+          >
+            {TIME_WINDOWS.map((option) => (
+              <ToggleGroupItem key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </div>
+      {renderChart()}
+    </div>
+  );
+};
+
+export default BalanceHistoryChart;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Permission } from '../lib/permissions';
+import { usePermission } from '../hooks/use-permission';
+
+interface CanProps {
+  permission: Permission;
+  /**
+   * Elements to render when permitted, or a function of whether the role is
+   * permitted, for controls that should stay visible but disabled.
+   */
+  children: React.ReactNode | ((allowed: boolean) => React.ReactNode);
+  /** Rendered instead of `children` when not permitted. */
+  fallback?: React.ReactNode;
+}
+
+const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const allowed = usePermission(permission);
+
+  if (typeof children === 'function') {
+    return <>{children(allowed)}</>;
+  }
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { FieldChange } from '../types';
+
+interface ChangeDiffProps {
+  changes: FieldChange[];
+}
+
+const renderValue = (value: string | null | undefined, className: string) =>
+  value ? <span className={`rounded px-1 ${className}`}>{value}</span> : <span className="italic text-muted-foreground">none</span>;
+
+const ChangeDiff: React.FC<ChangeDiffProps> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field-level changes were recorded.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-border text-start text-xs uppercase tracking-wide text-muted-foreground">
+          <th className="py-2 pe-3 font-medium">Field</th>
+          <th className="py-2 pe-3 font-medium">Before</th>
+          <th className="py-2 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="border-b border-border align-top">
+            <th scope="row" className="py-2 pe-3 text-start font-medium text-muted-foreground">
+              {change.label}
+            </th>
+            <td className="py-2 pe-3">
+              {renderValue(change.before, 'bg-destructive/10 text-destructive line-through decoration-destructive/40')}
+            </td>
+            <td className="py-2">{renderValue(change.after, 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300')}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default ChangeDiff;
@@ -0,0 +1,265 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { matchPath, useLocation, useNavigate } from 'react-router-dom';
+import { useTheme } from 'next-themes';
+import { BankAccount, UserQueryParams } from '../types';
+import { fetchUsers, queryKeys, searchAccounts } from '../services/api';
+import { requestAccountIntent } from '../services/accountIntent';
+import { accountPath, resolveAccountSegment } from '../services/accountRefs';
+import { RecentEntity, getRecentEntities, subscribeRecentEntities } from '../services/recent';
+import { canTransact, getAccountTypeInfo, statusAllows } from '../lib/account-registry';
+import { MOD_KEY_LABEL } from '../lib/keyboard';
+import { maskAccountId } from '../lib/permissions';
+import { useQuery } from '../hooks/use-query';
+import { usePermissions } from '../hooks/use-permission';
+import { useSession } from '../hooks/use-session';
+import { useTranslation } from '../hooks/use-translation';
+import { useDebouncedCallback } from '../hooks/use-debounced-callback';
+import { DialogTitle } from './ui/dialog';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from './ui/command';
+
+const SEARCH_DEBOUNCE_MS = 200;
+const RESULT_LIMIT = 5;
+
+interface PaletteAction {
+  id: string;
+  label: string;
+  run: () => void;
+}
+
+const userKey = (userId: string) => `user:${userId}`;
+const accountKey = (accountId: string) => `account:${accountId}`;
+const entityKey = (entity: RecentEntity) =>
+  entity.type === 'user' ? userKey(entity.userId) : accountKey(entity.account.accountId);
+
+const includesQuery = (query: string, ...values: string[]) =>
+  values.some((value) => value.toLowerCase().includes(query.toLowerCase()));
+
+/** Ctrl/Cmd+K palette for jumping to users and accounts and running common actions. */
+const CommandPalette: React.FC = () => {
+  const session = useSession();
+  const can = usePermissions();
+  const { t } = useTranslation();
+  const { resolvedTheme, setTheme } = useTheme();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const recent = useSyncExternalStore(subscribeRecentEntities, getRecentEntities);
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+
+  const [commitQuery, cancelQueryCommit] = useDebouncedCallback((value: string) => setQuery(value), SEARCH_DEBOUNCE_MS);
+
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) {
+      setOpen(false);
+    }
+  }, [session]);
+
+  const userParams: UserQueryParams = { page: 0, size: RESULT_LIMIT, search: query, sort: 'userId,asc' };
+  const usersQuery = useQuery(
+    open && query && can('users.view') ? queryKeys.users(userParams) : null,
+    ({ signal }) => fetchUsers(userParams, { signal }),
+    { keepPreviousData: true }
+  );
+  const accountsQuery = useQuery(
+    open && query ? queryKeys.accountSearch(query) : null,
+    ({ signal }) => searchAccounts(query, RESULT_LIMIT, { signal }),
+    { keepPreviousData: true }
+  );
+
+  if (!session) {
+    return null;
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      cancelQueryCommit();
+      setInput('');
+      setQuery('');
+    }
+  };
+
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    commitQuery(value.trim());
+  };
+
+  const run = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  // Anything viewed recently sorts ahead of fresh results, most recent first.
+  const recencyRank = (key: string) => {
+    const index = recent.findIndex((entity) => entityKey(entity) === key);
+    return index === -1 ? recent.length : index;
+  };
+
+  const recentUserIds = recent.flatMap((entity) => (entity.type === 'user' ? [entity.userId] : []));
+  const recentAccounts = recent.flatMap((entity) => (entity.type === 'account' ? [entity.account] : []));
+
+  const userIds = query
+    ? Array.from(
+        new Set([
+          ...recentUserIds.filter((userId) => includesQuery(query, userId)),
+          ...(usersQuery.data?.content ?? []).map((user) => user.userId),
+        ])
+      ).sort((a, b) => recencyRank(userKey(a)) - recencyRank(userKey(b)))
+    : [];
+
+  const accounts = query
+    ? [
+        ...recentAccounts.filter((account) => includesQuery(query, account.accountId, account.accountName)),
+        ...(accountsQuery.data ?? []),
+      ]
+        .filter((account, index, all) => all.findIndex((other) => other.accountId === account.accountId) === index)
+        .sort((a, b) => recencyRank(accountKey(a.accountId)) - recencyRank(accountKey(b.accountId)))
+    : [];
+
+  // Account actions apply to the account on screen, or else the last one viewed.
+  const routeAccountSegment = matchPath('/users/:userId/accounts/:accountId', location.pathname)?.params.accountId;
+  const routeAccountId = routeAccountSegment ? resolveAccountSegment(routeAccountSegment) : null;
+  const contextAccount =
+    recentAccounts.find((account) => account.accountId === routeAccountId) ?? recentAccounts[0] ?? null;
+
+  const openAccountAction = (account: BankAccount, action: 'transfer' | 'freeze') => {
+    requestAccountIntent({ userId: account.userId, accountId: account.accountId, action });
+    navigate(`/users/${encodeURIComponent(account.userId)}`);
+  };
+
+  const actions: PaletteAction[] = [];
+  if (contextAccount && canTransact(contextAccount, 'transfer') && can('transfers.create')) {
+    actions.push({
+      id: 'transfer',
+      label: t('palette.transferFrom', { name: contextAccount.accountName }),
+      run: () => openAccountAction(contextAccount, 'transfer'),
+    });
+  }
+  if (contextAccount && statusAllows(contextAccount, 'freeze') && can('accounts.freeze')) {
+    actions.push({
+      id: 'freeze',
+      label: t('palette.freeze', { name: contextAccount.accountName }),
+      run: () => openAccountAction(contextAccount, 'freeze'),
+    });
+  }
+  if (can('approvals.view')) {
+    actions.push({ id: 'approvals', label: t('palette.goToApprovals'), run: () => navigate('/approvals') });
+  }
+  actions.push({
+    id: 'theme',
+    label: t('palette.toggleTheme'),
+    run: () => setTheme(resolvedTheme === 'dark' ? 'light' : 'dark'),
+  });
+  const matchingActions = input.trim() ? actions.filter((action) => includesQuery(input.trim(), action.label)) : actions;
+
+  const searching = usersQuery.isLoading || accountsQuery.isLoading;
+  const searchFailed = Boolean(usersQuery.error || accountsQuery.error);
+
+  const displayAccountId = (accountId: string) =>
+    can('accounts.viewFullId') ? accountId : maskAccountId(accountId);
+
+  const renderUserItem = (userId: string) => (
+    <CommandItem
+      key={userKey(userId)}
+      value={userKey(userId)}
+      onSelect={() => run(() => navigate(`/users/${encodeURIComponent(userId)}`))}
+    >
+      <span className="truncate">{t('palette.user', { userId })}</span>
+    </CommandItem>
+  );
+
+  const renderAccountItem = (account: BankAccount) => {
+    const typeInfo = getAccountTypeInfo(account.accountType);
+    return (
+      <CommandItem
+        key={accountKey(account.accountId)}
+        value={accountKey(account.accountId)}
+        onSelect={() =>
+          run(() =>
+            navigate(
+              statusAllows(account, 'view')
+                ? accountPath(account.userId, account.accountId, can('accounts.viewFullId'))
+                : `/users/${encodeURIComponent(account.userId)}`
+            )
+          )
+        }
+      >
+        <svg className={typeInfo.iconClassName} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={typeInfo.iconPath} />
+        </svg>
+        <span className="truncate">{account.accountName}</span>
+        <span className="ms-auto text-xs text-muted-foreground">{displayAccountId(account.accountId)}</span>
+      </CommandItem>
+    );
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="hidden sm:inline-flex items-center gap-2 rounded-md border border-input px-3 py-1.5 text-sm text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+      >
+        {t('palette.open')}
+        <kbd className="rounded border border-border bg-muted px-1.5 font-mono text-xs">{MOD_KEY_LABEL} K</kbd>
+      </button>
+      <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+        <DialogTitle className="sr-only">{t('palette.open')}</DialogTitle>
+        <CommandInput placeholder={t('palette.placeholder')} value={input} onValueChange={handleInputChange} />
+        <CommandList>
+          <CommandEmpty>{t('palette.empty')}</CommandEmpty>
+          {query && (searching || searchFailed) && (
+            <p className={`px-4 py-2 text-xs ${searchFailed ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {searchFailed ? t('palette.error') : t('palette.searching')}
+            </p>
+          )}
+          {!query && recent.length > 0 && (
+            <CommandGroup heading={t('palette.recent')}>
+              {recent.map((entity) =>
+                entity.type === 'user' ? renderUserItem(entity.userId) : renderAccountItem(entity.account)
+              )}
+            </CommandGroup>
+          )}
+          {userIds.length > 0 && (
+            <CommandGroup heading={t('palette.users')}>{userIds.map(renderUserItem)}</CommandGroup>
+          )}
+          {accounts.length > 0 && (
+            <CommandGroup heading={t('palette.accounts')}>{accounts.map(renderAccountItem)}</CommandGroup>
+          )}
+          {matchingActions.length > 0 && (
+            <CommandGroup heading={t('palette.actions')}>
+              {matchingActions.map((action) => (
+                <CommandItem key={action.id} value={`action:${action.id}`} onSelect={() => run(action.run)}>
+                  {action.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default CommandPalette;
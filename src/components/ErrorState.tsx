@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  ApiError,
+  NetworkError,
+  NotFoundError,
+  SchemaValidationError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '../services/errors';
+import { MessageKey } from '../locales';
+import { useTranslation } from '../hooks/use-translation';
+
+interface ErrorStateProps {
+  error: ApiError;
+  onRetry?: () => void;
+  notFoundMessage?: string;
+}
+
+const getErrorTitleKey = (error: ApiError): MessageKey => {
+  if (error instanceof NotFoundError) {
+    return 'error.notFound';
+  }
+  if (error instanceof ValidationError) {
+    return 'error.invalidRequest';
+  }
+  if (error instanceof SchemaValidationError) {
+    return 'error.unexpectedResponse';
+  }
+  if (error instanceof TimeoutError) {
+    return 'error.timeout';
+  }
+  if (error instanceof NetworkError) {
+    return 'error.network';
+  }
+  if (error instanceof ServerError) {
+    return 'error.server';
+  }
+  return 'error.generic';
+};
+
+const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry, notFoundMessage }) => {
+  const { t } = useTranslation();
+  const isNotFound = error instanceof NotFoundError;
+  const canRetry = onRetry && !isNotFound && !(error instanceof ValidationError);
+
+  return (
+    <div className="text-center py-8">
+      <div className={`${isNotFound ? 'text-muted-foreground' : 'text-destructive'} mb-4`}>
+        <svg className="mx-auto h-12 w-12 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L4.268 18.5c-.77.833.192 2.5 1.732 2.5z" />
+        </svg>
+        <p className="text-sm font-medium">{t(getErrorTitleKey(error))}</p>
+        {error instanceof SchemaValidationError ? (
+          <p className="text-sm">{t('error.unexpectedResponseDetail', { endpoint: error.endpoint })}</p>
+        ) : (
+          <p className="text-sm">{isNotFound && notFoundMessage ? notFoundMessage : error.message}</p>
+        )}
+        {error instanceof ValidationError && error.fieldErrors.length > 0 && (
+          <ul className="mt-2 text-xs text-start inline-block list-disc list-inside">
+            {error.fieldErrors.map((fieldError) => (
+              <li key={`${fieldError.field}-${fieldError.message}`}>
+                <span className="font-mono">{fieldError.field}</span>: {fieldError.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {error instanceof SchemaValidationError && (
+          <ul className="mt-2 text-xs text-start inline-block list-disc list-inside">
+            {error.issues.map((issue) => (
+              <li key={`${issue.path}-${issue.message}`}>
+                <span className="font-mono">{issue.path}</span>: {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium transition-colors"
+        >
+          {t('error.retry')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorState;
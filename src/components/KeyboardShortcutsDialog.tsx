@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { MessageKey } from '../locales';
+import { MOD_KEY_LABEL, hasCommandModifier, isEditableTarget } from '../lib/keyboard';
+import { useSession } from '../hooks/use-session';
+import { useTranslation } from '../hooks/use-translation';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface Shortcut {
+  /** Alternative key combinations, each a list of keys pressed together or in turn. */
+  keys: string[][];
+  labelKey: MessageKey;
+}
+
+const SHORTCUT_GROUPS: { titleKey: MessageKey; shortcuts: Shortcut[] }[] = [
+  {
+    titleKey: 'shortcuts.general',
+    shortcuts: [
+      { keys: [[MOD_KEY_LABEL, 'K']], labelKey: 'shortcuts.openPalette' },
+      { keys: [['?']], labelKey: 'shortcuts.showHelp' },
+      { keys: [['/']], labelKey: 'shortcuts.focusSearch' },
+    ],
+  },
+  {
+    titleKey: 'shortcuts.users',
+    shortcuts: [
+      { keys: [['↑', '↓']], labelKey: 'shortcuts.moveUser' },
+      { keys: [['Home', 'End']], labelKey: 'shortcuts.firstLast' },
+      { keys: [['Enter']], labelKey: 'shortcuts.openUser' },
+      { keys: [['PgUp', 'PgDn'], ['[', ']']], labelKey: 'shortcuts.changePage' },
+    ],
+  },
+  {
+    titleKey: 'shortcuts.accounts',
+    shortcuts: [
+      { keys: [['↑', '↓']], labelKey: 'shortcuts.moveAccount' },
+      { keys: [['Enter']], labelKey: 'shortcuts.openAccount' },
+      { keys: [['Tab']], labelKey: 'shortcuts.accountActions' },
+    ],
+  },
+];
+
+/** Lists every keyboard shortcut. Opened with `?` from anywhere outside a text field. */
+const KeyboardShortcutsDialog: React.FC = () => {
+  const session = useSession();
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === '?' && !hasCommandModifier(event) && !isEditableTarget(event.target)) {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [session]);
+
+  return (
+    <Dialog open={open && session !== null} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('shortcuts.title')}</DialogTitle>
+          <DialogDescription>{t('shortcuts.description')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {SHORTCUT_GROUPS.map((group) => (
+            <section key={group.titleKey}>
+              <h3 className="mb-2 text-xs font-medium uppercase text-muted-foreground">{t(group.titleKey)}</h3>
+              <dl className="space-y-1.5">
+                {group.shortcuts.map((shortcut) => (
+                  <div key={shortcut.labelKey} className="flex items-center justify-between gap-4 text-sm">
+                    <dt className="text-foreground">{t(shortcut.labelKey)}</dt>
+                    <dd className="flex shrink-0 items-center gap-1 text-xs text-muted-foreground">
+                      {shortcut.keys.map((combination, index) => (
+                        <React.Fragment key={combination.join('+')}>
+                          {index > 0 && <span className="px-1">{t('shortcuts.or')}</span>}
+                          {combination.map((key) => (
+                            <kbd key={key} className="rounded border border-border bg-muted px-1.5 py-0.5 font-mono text-foreground">
+                              {key}
+                            </kbd>
+                          ))}
+                        </React.Fragment>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsDialog;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { login, resendMfaCode, verifyMfa } from '../services/api';
+import { AuthenticationError, toApiError } from '../services/errors';
+import { getSessionEndReason } from '../services/session';
+import { useSession } from '../hooks/use-session';
+import { MfaChallenge } from '../types';
+import MfaCodeForm from './MfaCodeForm';
+import { LoginLocationState } from './RequireAuth';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './ui/form';
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1, 'Enter your username'),
+  password: z.string().min(1, 'Enter your password'),
+});
+
+type LoginFormValues = z.infer<typeof loginSchema>;
+
+const END_REASON_MESSAGES = {
+  signedOut: 'You have signed out.',
+  expired: 'Your session has expired. Sign in again to continue.',
+  locked: 'You were signed out after too many incorrect verification codes.',
+};
+
+const LoginPage: React.FC = () => {
+  const session = useSession();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
+
+  const from = (location.state as LoginLocationState | null)?.from;
+  const destination = from ? `${from.pathname}${from.search}` : '/users';
+  const endReason = getSessionEndReason();
+
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: '', password: '' },
+  });
+
+  if (session && !submitting) {
+    return <Navigate to={destination} replace />;
+  }
+
+  const handleSubmit = async (values: LoginFormValues) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const result = await login({ username: values.username.trim(), password: values.password });
+      if (result.status === 'mfaRequired') {
+        setChallenge(result.challenge);
+        return;
+      }
+      navigate(destination, { replace: true });
+    } catch (err) {
+      const apiError = toApiError(err, 'Failed to sign in');
+      setError(
+        apiError instanceof AuthenticationError ? 'Incorrect username or password' : apiError.message
+      );
+      form.resetField('password');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (code: string, rememberDevice: boolean) => {
+    if (!challenge) {
+      return;
+    }
+    await verifyMfa({ challengeId: challenge.challengeId, code, rememberDevice });
+    navigate(destination, { replace: true });
+  };
+
+  const returnToPassword = (message: string | null) => {
+    setChallenge(null);
+    setError(message);
+    form.resetField('password');
+  };
+
+  if (challenge) {
+    return (
+      <div className="max-w-sm mx-auto bg-card rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-foreground">Two-step verification</h2>
+        <p className="mt-1 mb-4 text-sm text-muted-foreground">
+          A second factor is required for every tool that can move money.
+        </p>
+        <MfaCodeForm
+          challenge={challenge}
+          allowRememberDevice
+          submitLabel="Verify"
+          onVerify={handleVerify}
+          onResend={resendMfaCode}
+          onLocked={() =>
+            returnToPassword('Too many incorrect codes. Sign in again to get a new code.')
+          }
+          onCancel={() => returnToPassword(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-sm mx-auto bg-card rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-foreground">Sign in</h2>
+      <p className="mt-1 mb-4 text-sm text-muted-foreground">Use your staff credentials to continue.</p>
+      {endReason && !error && (
+        <p className="mb-4 rounded-md bg-muted/50 px-3 py-2 text-sm text-muted-foreground">{END_REASON_MESSAGES[endReason]}</p>
+      )}
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Username</FormLabel>
+                <FormControl>
+                  <Input autoComplete="username" autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Password</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="current-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={submitting}>
+            {submitting ? 'Signing in...' : 'Sign in'}
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default LoginPage;
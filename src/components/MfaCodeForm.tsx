@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { MfaChallenge } from '../types';
+import { ApiError, AuthenticationError, ValidationError, toApiError } from '../services/errors';
+import { REMEMBER_DEVICE_DAYS } from '../services/trustedDevice';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+
+interface MfaCodeFormProps {
+  challenge: MfaChallenge;
+  /** Offer "remember this device"; only meaningful at sign-in. */
+  allowRememberDevice?: boolean;
+  submitLabel: string;
+  onVerify: (code: string, rememberDevice: boolean) => Promise<void>;
+  onResend: (challengeId: string) => Promise<MfaChallenge>;
+  /** Called once the attempt limit is reached; the form stays disabled afterwards. */
+  onLocked: () => void;
+  onCancel: () => void;
+}
+
+export const MAX_MFA_ATTEMPTS = 5;
+
+// 423 Locked and 429 Too Many Requests both mean the server has stopped
+// accepting codes for this challenge, whatever the local count says.
+const isLockout = (error: ApiError) => error.status === 423 || error.status === 429;
+
+const isWrongCode = (error: ApiError): boolean =>
+  error instanceof AuthenticationError || error instanceof ValidationError;
+
+const MfaCodeForm: React.FC<MfaCodeFormProps> = ({
+  challenge: initialChallenge,
+  allowRememberDevice = false,
+  submitLabel,
+  onVerify,
+  onResend,
+  onLocked,
+  onCancel,
+}) => {
+  const [challenge, setChallenge] = useState(initialChallenge);
+  const [code, setCode] = useState('');
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [resendIn, setResendIn] = useState(initialChallenge.resendAfter);
+  const [submitting, setSubmitting] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const locked = failedAttempts >= MAX_MFA_ATTEMPTS;
+
+  useEffect(() => {
+    if (resendIn <= 0) {
+      return;
+    }
+    const timer = window.setTimeout(() => setResendIn((seconds) => seconds - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [resendIn]);
+
+  const lock = () => {
+    setFailedAttempts(MAX_MFA_ATTEMPTS);
+    setError('Too many incorrect codes.');
+    onLocked();
+  };
+
+  const submit = async (value: string) => {
+    if (value.length !== challenge.codeLength || submitting || locked) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setNotice(null);
+      await onVerify(value, rememberDevice);
+    } catch (err) {
+      const apiError = toApiError(err, 'Failed to verify code');
+      setCode('');
+      if (isLockout(apiError)) {
+        lock();
+        return;
+      }
+      if (!isWrongCode(apiError)) {
+        setError(apiError.message);
+        return;
+      }
+
+      const attempts = failedAttempts + 1;
+      if (attempts >= MAX_MFA_ATTEMPTS) {
+        lock();
+        return;
+      }
+      const remaining = MAX_MFA_ATTEMPTS - attempts;
+      setFailedAttempts(attempts);
+      setError(`Incorrect code. ${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left.`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      setResending(true);
+      setError(null);
+      const next = await onResend(challenge.challengeId);
+      setChallenge(next);
+      setCode('');
+      setResendIn(next.resendAfter);
+      setNotice('A new code has been sent.');
+    } catch (err) {
+      const apiError = toApiError(err, 'Failed to resend code');
+      if (isLockout(apiError)) {
+        lock();
+        return;
+      }
+      setError(apiError.message);
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const prompt =
+    challenge.method === 'SMS'
+      ? `Enter the ${challenge.codeLength}-digit code sent to ${challenge.destination ?? 'your phone'}.`
+      : `Enter the ${challenge.codeLength}-digit code from your authenticator app.`;
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit(code);
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-muted-foreground">{prompt}</p>
+      <InputOTP
+        maxLength={challenge.codeLength}
+        pattern={REGEXP_ONLY_DIGITS}
+        pasteTransformer={(pasted) => pasted.replace(/\D/g, '')}
+        value={code}
+        onChange={setCode}
+        onComplete={submit}
+        disabled={submitting || locked}
+        autoFocus
+        autoComplete="one-time-code"
+        aria-label="Verification code"
+        containerClassName="justify-center"
+      >
+        <InputOTPGroup>
+          {Array.from({ length: challenge.codeLength }, (_, index) => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+
+      {challenge.method === 'SMS' && !locked && (
+        <div className="text-center text-sm">
+          {resendIn > 0 ? (
+            <span className="text-muted-foreground">Resend code in {resendIn}s</span>
+          ) : (
+            <button
+              type="button"
+              onClick={handleResend}
+              disabled={resending}
+              className="font-medium text-primary hover:text-primary/80 disabled:opacity-50"
+            >
+              {resending ? 'Sending...' : 'Resend code'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {allowRememberDevice && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="remember-device"
+            checked={rememberDevice}
+            onCheckedChange={(checked) => setRememberDevice(checked === true)}
+            disabled={locked}
+          />
+          <Label htmlFor="remember-device" className="text-sm font-normal text-muted-foreground">
+            Remember this device for {REMEMBER_DEVICE_DAYS} days
+          </Label>
+        </div>
+      )}
+
+      {notice && !error && <p className="text-sm text-muted-foreground">{notice}</p>}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={submitting || locked || code.length !== challenge.codeLength}>
+          {submitting ? 'Verifying...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default MfaCodeForm;
@@ -0,0 +1,499 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ApprovalRequest, BankAccount, CreateAccountRequest } from '../types';
+import { createAccount, queryKeys, submitForApproval } from '../services/api';
+import { CancelledError, ValidationError, toApiError } from '../services/errors';
+import { getQueryState, invalidateQueries, setQueryData } from '../services/queryCache';
+import { requestStepUp } from '../services/stepUp';
+import { getTenant } from '../services/tenant';
+import { useTenant } from '../hooks/use-tenant';
+import { useTranslation } from '../hooks/use-translation';
+import {
+  ACCOUNT_TYPE_REGISTRY,
+  canTransact,
+  getAccountTypeInfo,
+  getOpenableAccountTypes,
+  typeAllows,
+} from '../lib/account-registry';
+import { transferRequiresApproval } from '../lib/approvals';
+import {
+  compareMoney,
+  formatMoney,
+  getMoneyInputError,
+  isPositive,
+  parseMoney,
+  subtractMoney,
+  tryParseMoney,
+  zeroMoney,
+} from '../lib/money';
+import ApprovalSubmitted from './ApprovalSubmitted';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+interface OpenAccountWizardProps {
+  open: boolean;
+  userId: string | null;
+  accounts: BankAccount[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const OPENABLE_ACCOUNT_TYPES = getOpenableAccountTypes();
+
+const STEPS = ['Account type', 'Name', 'Initial deposit', 'Review'];
+const NO_FUNDING = 'NONE';
+
+const createOpenAccountSchema = (accounts: BankAccount[]) =>
+  z
+    .object({
+      accountType: z.enum(OPENABLE_ACCOUNT_TYPES, { message: 'Choose an account type' }),
+      accountName: z
+        .string()
+        .trim()
+        .min(2, 'Name must be at least 2 characters')
+        .max(50, 'Name must be 50 characters or fewer'),
+      fundingSourceId: z.string(),
+      initialDeposit: z.string(),
+    })
+    .superRefine((values, ctx) => {
+      if (!typeAllows(values.accountType, 'deposit') || values.fundingSourceId === NO_FUNDING) {
+        return;
+      }
+
+      const source = accounts.find((account) => account.accountId === values.fundingSourceId);
+      const currency = source?.balance.currency ?? getTenant().currency;
+      const depositError = /^\d+(\.\d+)?$/.test(values.initialDeposit)
+        ? getMoneyInputError(values.initialDeposit, currency)
+        : null;
+      const deposit = tryParseMoney(values.initialDeposit, currency);
+      if (depositError || !deposit || !isPositive(deposit)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['initialDeposit'],
+          message: depositError ?? 'Enter a deposit greater than zero',
+        });
+        return;
+      }
+
+      if (source && compareMoney(deposit, source.balance) > 0) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['initialDeposit'],
+          message: 'Deposit exceeds the funding account balance',
+        });
+      }
+    });
+
+type OpenAccountFormValues = z.infer<ReturnType<typeof createOpenAccountSchema>>;
+
+const STEP_FIELDS: (keyof OpenAccountFormValues)[][] = [
+  ['accountType'],
+  ['accountName'],
+  ['fundingSourceId', 'initialDeposit'],
+  [],
+];
+
+const DEFAULT_VALUES: Partial<OpenAccountFormValues> = {
+  accountName: '',
+  fundingSourceId: NO_FUNDING,
+  initialDeposit: '',
+};
+
+const OpenAccountWizard: React.FC<OpenAccountWizardProps> = ({ open, userId, accounts, onOpenChange }) => {
+  const tenant = useTenant();
+  const { t } = useTranslation();
+  const [step, setStep] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openedAccount, setOpenedAccount] = useState<BankAccount | null>(null);
+  const [submittedApproval, setSubmittedApproval] = useState<ApprovalRequest | null>(null);
+
+  const form = useForm<OpenAccountFormValues>({
+    resolver: zodResolver(createOpenAccountSchema(accounts)),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(DEFAULT_VALUES);
+      setStep(0);
+      setError(null);
+      setOpenedAccount(null);
+      setSubmittedApproval(null);
+    }
+  }, [open, form]);
+
+  const fundingAccounts = accounts.filter((account) => canTransact(account, 'fund'));
+  const values = form.watch();
+  const typeInfo = values.accountType ? getAccountTypeInfo(values.accountType) : null;
+  const acceptsDeposit = !values.accountType || typeAllows(values.accountType, 'deposit');
+  const hasDeposit = acceptsDeposit && values.fundingSourceId !== NO_FUNDING;
+
+  const findAccount = (accountId: string | undefined) =>
+    accounts.find((account) => account.accountId === accountId);
+
+  const handleNext = async () => {
+    const valid = await form.trigger(STEP_FIELDS[step]);
+    if (valid) {
+      setStep(step + 1);
+    }
+  };
+
+  // Optimistically adds the account (and debits an inline deposit), rolling the
+  // list back if the server rejects it.
+  const submitOpening = async (request: CreateAccountRequest, stepUpToken?: string): Promise<BankAccount> => {
+    const accountsKey = queryKeys.accounts(request.userId);
+    const previousAccounts = getQueryState<BankAccount[]>(accountsKey).data;
+    const optimisticAccount: BankAccount = {
+      accountId: `pending-${Date.now()}`,
+      userId: request.userId,
+      accountType: request.accountType,
+      accountName: request.accountName,
+      balance: request.initialDeposit?.amount ?? zeroMoney(request.currency),
+      status: 'PENDING',
+    };
+    setQueryData<BankAccount[]>(accountsKey, (current) => [
+      ...(current ?? []).map((account) =>
+        account.accountId === request.initialDeposit?.sourceAccountId
+          ? { ...account, balance: subtractMoney(account.balance, request.initialDeposit.amount) }
+          : account
+      ),
+      optimisticAccount,
+    ]);
+
+    try {
+      const created = await createAccount(request, { stepUpToken });
+      setQueryData<BankAccount[]>(accountsKey, (current) =>
+        (current ?? []).map((account) =>
+          account.accountId === optimisticAccount.accountId ? created : account
+        )
+      );
+      invalidateQueries(accountsKey);
+      if (request.initialDeposit) {
+        invalidateQueries(queryKeys.account(request.initialDeposit.sourceAccountId));
+        invalidateQueries(queryKeys.transactions(request.initialDeposit.sourceAccountId));
+        invalidateQueries(queryKeys.balanceHistory(request.initialDeposit.sourceAccountId));
+      }
+      return created;
+    } catch (err) {
+      if (previousAccounts) {
+        setQueryData(accountsKey, previousAccounts);
+      } else {
+        invalidateQueries(accountsKey);
+      }
+      throw err;
+    }
+  };
+
+  const handleConfirm = async (formValues: OpenAccountFormValues) => {
+    if (!userId) {
+      return;
+    }
+
+    const fundingAccount = hasDeposit ? findAccount(formValues.fundingSourceId) : undefined;
+    const currency = fundingAccount?.balance.currency ?? tenant.currency;
+    const deposit = fundingAccount && {
+      sourceAccountId: fundingAccount.accountId,
+      amount: parseMoney(formValues.initialDeposit, currency),
+    };
+    // A deposit above the approval limit cannot ride along with the opening:
+    // the account opens empty and the deposit goes to the approvals inbox as
+    // an ordinary transfer, exactly as TransferDialog would send it.
+    const depositNeedsApproval =
+      deposit !== undefined && transferRequiresApproval(deposit.amount, tenant.transferApprovalThresholds);
+    const request: CreateAccountRequest = {
+      userId,
+      accountType: formValues.accountType,
+      accountName: formValues.accountName,
+      currency,
+    };
+    if (deposit && !depositNeedsApproval) {
+      request.initialDeposit = deposit;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      if (!deposit || !depositNeedsApproval) {
+        const stepUpToken = deposit ? await requestStepUp('Verify your identity to fund this account.') : undefined;
+        await submitOpening(request, stepUpToken);
+        onOpenChange(false);
+        return;
+      }
+
+      const stepUpToken = await requestStepUp('Verify your identity to fund this account.');
+      // Kept across retries so a failed approval submission does not open a
+      // second account.
+      const created = openedAccount ?? (await submitOpening(request));
+      setOpenedAccount(created);
+      setSubmittedApproval(
+        await submitForApproval(
+          {
+            kind: 'TRANSFER',
+            transfer: { ...deposit, destinationAccountId: created.accountId, memo: 'Initial deposit' },
+          },
+          { stepUpToken }
+        )
+      );
+      invalidateQueries(queryKeys.approvals());
+    } catch (err) {
+      const apiError = toApiError(err, 'Failed to create account');
+      if (apiError instanceof CancelledError) {
+        return;
+      }
+      if (apiError instanceof ValidationError) {
+        for (const fieldError of apiError.fieldErrors) {
+          if (fieldError.field in formValues) {
+            form.setError(fieldError.field as keyof OpenAccountFormValues, { message: fieldError.message });
+          }
+        }
+      }
+      setError(apiError.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderTypeStep = () => (
+    <FormField
+      control={form.control}
+      name="accountType"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>What kind of account?</FormLabel>
+          <FormControl>
+            <RadioGroup value={field.value ?? ''} onValueChange={field.onChange} className="space-y-2">
+              {OPENABLE_ACCOUNT_TYPES.map((accountType) => (
+                <Label
+                  key={accountType}
+                  htmlFor={`account-type-${accountType}`}
+                  className="flex items-start gap-3 rounded-md border border-border p-3 cursor-pointer hover:bg-accent"
+                >
+                  <RadioGroupItem id={`account-type-${accountType}`} value={accountType} className="mt-0.5" />
+                  <span>
+                    <span className="block text-sm font-medium text-foreground">
+                      {t(ACCOUNT_TYPE_REGISTRY[accountType].labelKey)}
+                    </span>
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      {t(ACCOUNT_TYPE_REGISTRY[accountType].descriptionKey)}
+                    </span>
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderNameStep = () => (
+    <FormField
+      control={form.control}
+      name="accountName"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Account name</FormLabel>
+          <FormControl>
+            <Input placeholder="e.g. Holiday Savings" autoFocus {...field} />
+          </FormControl>
+          <FormDescription>Shown to the customer on statements and in online banking.</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderDepositStep = () => {
+    if (!acceptsDeposit) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          {typeInfo && t('openAccount.nothingToFund', { type: t(typeInfo.labelKey) })}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <FormField
+          control={form.control}
+          name="fundingSourceId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Fund from</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_FUNDING}>No initial deposit</SelectItem>
+                  {fundingAccounts.map((account) => (
+                    <SelectItem key={account.accountId} value={account.accountId}>
+                      {account.accountName} · {formatMoney(account.balance)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {hasDeposit && (
+          <FormField
+            control={form.control}
+            name="initialDeposit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input inputMode="decimal" placeholder="0.00" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderReviewStep = () => {
+    const fundingAccount = findAccount(values.fundingSourceId);
+    const deposit = fundingAccount && tryParseMoney(values.initialDeposit, fundingAccount.balance.currency);
+    return (
+      <div className="space-y-3">
+        <dl className="grid grid-cols-3 gap-y-2 text-sm">
+          <dt className="text-muted-foreground">Owner</dt>
+          <dd className="col-span-2 font-mono text-foreground">{userId}</dd>
+          <dt className="text-muted-foreground">Type</dt>
+          <dd className="col-span-2 text-foreground">{typeInfo && t(typeInfo.labelKey)}</dd>
+          <dt className="text-muted-foreground">Name</dt>
+          <dd className="col-span-2 text-foreground">{values.accountName?.trim()}</dd>
+          <dt className="text-muted-foreground">Initial deposit</dt>
+          <dd className="col-span-2 text-foreground">
+            {hasDeposit && fundingAccount && deposit
+              ? `${formatMoney(deposit)} from ${fundingAccount.accountName}`
+              : 'None'}
+          </dd>
+        </dl>
+        {hasDeposit && deposit && transferRequiresApproval(deposit, tenant.transferApprovalThresholds) && (
+          <p className="text-sm text-muted-foreground">
+            This deposit is above the approval limit, so the account opens empty and the deposit waits for a
+            second operator to approve it.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case 0:
+        return renderTypeStep();
+      case 1:
+        return renderNameStep();
+      case 2:
+        return renderDepositStep();
+      default:
+        return renderReviewStep();
+    }
+  };
+
+  const isLastStep = step === STEPS.length - 1;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !submitting && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-md">
+        {submittedApproval ? (
+          <ApprovalSubmitted approval={submittedApproval} onDone={() => onOpenChange(false)} />
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Open a new account</DialogTitle>
+              <DialogDescription>
+                Step {step + 1} of {STEPS.length}: {STEPS[step]}
+              </DialogDescription>
+            </DialogHeader>
+            <ol className="flex gap-1" aria-hidden="true">
+              {STEPS.map((label, index) => (
+                <li
+                  key={label}
+                  className={`h-1 flex-1 rounded-full ${index <= step ? 'bg-primary' : 'bg-muted'}`}
+                />
+              ))}
+            </ol>
+            <Form {...form}>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (isLastStep) {
+                    form.handleSubmit(handleConfirm)(e);
+                  } else {
+                    handleNext();
+                  }
+                }}
+                className="space-y-4"
+              >
+                {renderStep()}
+                {error && (
+                  <p className="text-sm text-destructive">
+                    {error}
+                    {openedAccount && ` ${openedAccount.accountName} was opened without its deposit; submit again to retry.`}
+                  </p>
+                )}
+                <DialogFooter>
+                  {step > 0 && (
+                    <Button type="button" variant="outline" disabled={submitting} onClick={() => setStep(step - 1)}>
+                      Back
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={submitting}>
+                    {isLastStep
+                      ? submitting
+                        ? 'Opening account...'
+                        : openedAccount
+                          ? 'Submit deposit for approval'
+                          : 'Open account'
+                      : 'Next'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OpenAccountWizard;
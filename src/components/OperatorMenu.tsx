@@ -0,0 +1,63 @@
+import React from 'react';
+import { logout } from '../services/api';
+import { useSession } from '../hooks/use-session';
+import { useTranslation } from '../hooks/use-translation';
+import { getRoleInfo } from '../lib/permissions';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+const getInitials = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+
+const OperatorMenu: React.FC = () => {
+  const session = useSession();
+  const { t } = useTranslation();
+
+  if (!session) {
+    return null;
+  }
+
+  const { operator } = session;
+  const roleInfo = getRoleInfo(operator.role);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        aria-label={t('operator.signedInAs', { name: operator.displayName })}
+        className="flex items-center gap-2 rounded-md px-2 py-1 text-sm text-muted-foreground hover:bg-accent"
+      >
+        <span className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10 text-xs font-semibold text-primary">
+          {getInitials(operator.displayName) || '?'}
+        </span>
+        <span className="hidden sm:inline font-medium">{operator.displayName}</span>
+        <svg className="h-4 w-4 text-muted-foreground" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>
+          <span className="block">{operator.displayName}</span>
+          <span className="block text-xs font-normal text-muted-foreground">{operator.username}</span>
+          <span className="block text-xs font-normal text-muted-foreground" title={roleInfo.description}>
+            {roleInfo.label}
+          </span>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => logout()}>{t('operator.signOut')}</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default OperatorMenu;
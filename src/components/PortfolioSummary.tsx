@@ -0,0 +1,128 @@
+import React from 'react';
+import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from 'recharts';
+import { BankAccount } from '../types';
+import { fetchFxRates, queryKeys } from '../services/api';
+import { useQuery } from '../hooks/use-query';
+import { useTenant } from '../hooks/use-tenant';
+import { useTranslation } from '../hooks/use-translation';
+import { PortfolioCurrencyTotals, summarizePortfolio } from '../lib/portfolio';
+import { ACCOUNT_TYPE_REGISTRY } from '../lib/account-registry';
+import { CHART_TOOLTIP_CONTENT_STYLE } from '../lib/chart';
+import { formatMoney, fromMajor, isNegative, toMajor } from '../lib/money';
+
+interface PortfolioSummaryProps {
+  accounts: BankAccount[];
+}
+
+const PortfolioSummary: React.FC<PortfolioSummaryProps> = ({ accounts }) => {
+  const tenant = useTenant();
+  const { t } = useTranslation();
+  const currencies = new Set(accounts.map((account) => account.balance.currency));
+  const isMultiCurrency = currencies.size > 1;
+  // Rates are only needed to combine currencies; if they fail to load the
+  // summary falls back to per-currency totals.
+  const fxQuery = useQuery(
+    isMultiCurrency ? queryKeys.fxRates(tenant.currency) : null,
+    ({ signal }) => fetchFxRates(tenant.currency, { signal })
+  );
+  const summary = summarizePortfolio(accounts, isMultiCurrency ? fxQuery.data : undefined);
+
+  const renderTotals = (totals: PortfolioCurrencyTotals) => {
+    const chartData = totals.breakdown
+      .filter((entry) => entry.total.minor > 0)
+      .map((entry) => ({ ...entry, value: toMajor(entry.total) }));
+
+    return (
+      <div key={totals.currency} className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <dl className="grid grid-cols-3 gap-4 flex-1">
+          <div>
+            <dt className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{t('portfolio.assets')}</dt>
+            <dd className="mt-1 text-lg font-semibold text-foreground">{formatMoney(totals.totalAssets)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{t('portfolio.liabilities')}</dt>
+            <dd className="mt-1 text-lg font-semibold text-foreground">{formatMoney(totals.totalLiabilities)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{t('portfolio.netPosition')}</dt>
+            <dd className={`mt-1 text-lg font-semibold ${
+              isNegative(totals.netPosition) ? 'text-destructive' : 'text-green-700 dark:text-green-400'
+            }`}>
+              {formatMoney(totals.netPosition)}
+            </dd>
+          </div>
+        </dl>
+        {chartData.length > 0 && (
+          <div className="flex items-center gap-3">
+            <div className="h-24 w-24">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={chartData}
+                    dataKey="value"
+                    nameKey="accountType"
+                    innerRadius="60%"
+                    outerRadius="100%"
+                    paddingAngle={2}
+                    stroke="hsl(var(--card))"
+                    isAnimationActive={false}
+                  >
+                    {chartData.map((entry) => (
+                      <Cell
+                        key={entry.accountType}
+                        fill={ACCOUNT_TYPE_REGISTRY[entry.accountType].chartColor}
+                      />
+                    ))}
+                  </Pie>
+                  <Tooltip
+                    formatter={(value: number) => formatMoney(fromMajor(value, totals.currency))}
+                    contentStyle={CHART_TOOLTIP_CONTENT_STYLE}
+                  />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              {chartData.map((entry) => (
+                <li key={entry.accountType} className="flex items-center">
+                  <span
+                    className="inline-block h-2 w-2 rounded-full me-2"
+                    style={{ backgroundColor: ACCOUNT_TYPE_REGISTRY[entry.accountType].chartColor }}
+                  />
+                  {t('portfolio.typeCount', { type: t(ACCOUNT_TYPE_REGISTRY[entry.accountType].labelKey), count: entry.count })}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="border border-border rounded-lg p-4 mb-4">
+      <div className="space-y-4 divide-y divide-border [&>*+*]:pt-4">
+        {summary.totals.map(renderTotals)}
+      </div>
+      {summary.convertedCount > 0 && fxQuery.data && (
+        <p className="mt-3 text-xs text-muted-foreground">
+          {t('portfolio.converted', { count: summary.convertedCount, currency: fxQuery.data.base })}
+        </p>
+      )}
+      {summary.totals.length > 1 && (
+        <p className="mt-3 text-xs text-muted-foreground">{t('portfolio.perCurrency')}</p>
+      )}
+      {(summary.inactiveCount > 0 || summary.closedCount > 0) && (
+        <p className="mt-3 text-xs text-muted-foreground">
+          {[
+            summary.inactiveCount > 0 && t('portfolio.includesInactive', { count: summary.inactiveCount }),
+            summary.closedCount > 0 && t('portfolio.excludesClosed', { count: summary.closedCount }),
+          ]
+            .filter(Boolean)
+            .join(' ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioSummary;
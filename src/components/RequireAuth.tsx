@@ -0,0 +1,23 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useSession } from '../hooks/use-session';
+
+export interface LoginLocationState {
+  from?: { pathname: string; search: string };
+}
+
+const RequireAuth: React.FC = () => {
+  const session = useSession();
+  const location = useLocation();
+
+  if (!session) {
+    const state: LoginLocationState = {
+      from: { pathname: location.pathname, search: location.search },
+    };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireAuth;
@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { BankAccount } from '../types';
+import { generateStatement } from '../services/statements';
+import { CancelledError, toApiError } from '../services/errors';
+import { downloadCsv, downloadFile } from '../lib/csv';
+import { printHtml } from '../lib/print';
+import { StatementFormat } from '../lib/statement';
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Label } from './ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface StatementExportDialogProps {
+  account: BankAccount | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FORMAT_OPTIONS: { value: StatementFormat; label: string; description: string }[] = [
+  { value: 'html', label: 'PDF / print', description: 'Branded statement to print or save as PDF' },
+  { value: 'csv', label: 'CSV', description: 'For Excel, Numbers or Google Sheets' },
+  { value: 'ofx', label: 'OFX', description: 'For accounting software such as Xero or GnuCash' },
+  { value: 'qfx', label: 'QFX', description: 'For Quicken' },
+];
+
+const getLastMonth = (): DateRange => {
+  const lastMonth = subMonths(new Date(), 1);
+  return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
+};
+
+const StatementExportDialog: React.FC<StatementExportDialogProps> = ({ account, onOpenChange }) => {
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(getLastMonth);
+  const [statementFormat, setStatementFormat] = useState<StatementFormat>('html');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const open = account !== null;
+
+  useEffect(() => {
+    if (open) {
+      setDateRange(getLastMonth());
+      setError(null);
+    }
+    return () => abortRef.current?.abort();
+  }, [open, account?.accountId]);
+
+  const handleExport = async () => {
+    if (!account || !dateRange?.from) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      setExporting(true);
+      setError(null);
+      const range = {
+        from: format(dateRange.from, 'yyyy-MM-dd'),
+        to: format(dateRange.to ?? dateRange.from, 'yyyy-MM-dd'),
+      };
+      const file = await generateStatement(account, range, statementFormat, { signal: controller.signal });
+      if (statementFormat === 'html') {
+        printHtml(file.content);
+      } else if (statementFormat === 'csv') {
+        downloadCsv(file.filename, file.content);
+      } else {
+        downloadFile(file.filename, file.content, file.mimeType);
+      }
+      onOpenChange(false);
+    } catch (err) {
+      const apiError = toApiError(err, 'Failed to export statement');
+      if (!(apiError instanceof CancelledError)) {
+        setError(apiError.message);
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatRangeLabel = (range: DateRange | undefined): string => {
+    if (!range?.from) {
+      return 'Choose dates';
+    }
+    const to = range.to ?? range.from;
+    return `${format(range.from, 'PP')} – ${format(to, 'PP')}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {account && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Export statement</DialogTitle>
+              <DialogDescription>
+                {account.accountName} ({account.accountId})
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Period</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start font-normal">
+                      {formatRangeLabel(dateRange)}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="range"
+                      selected={dateRange}
+                      onSelect={setDateRange}
+                      numberOfMonths={2}
+                      defaultMonth={dateRange?.from}
+                      disabled={{ after: new Date() }}
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <RadioGroup
+                  value={statementFormat}
+                  onValueChange={(value) => setStatementFormat(value as StatementFormat)}
+                  className="space-y-2"
+                >
+                  {FORMAT_OPTIONS.map((option) => (
+                    <Label
+                      key={option.value}
+                      htmlFor={`statement-format-${option.value}`}
+                      className="flex items-start gap-3 rounded-md border border-border p-3 cursor-pointer hover:bg-accent"
+                    >
+                      <RadioGroupItem id={`statement-format-${option.value}`} value={option.value} className="mt-0.5" />
+                      <span>
+                        <span className="block text-sm font-medium text-foreground">{option.label}</span>
+                        <span className="block text-xs font-normal text-muted-foreground">{option.description}</span>
+                      </span>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleExport} disabled={exporting || !dateRange?.from}>
+                {exporting ? 'Preparing...' : statementFormat === 'html' ? 'Print statement' : 'Download'}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StatementExportDialog;
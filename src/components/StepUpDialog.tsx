@@ -0,0 +1,106 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { MfaChallenge } from '../types';
+import { endSession, resendStepUpCode, startStepUp, verifyStepUp } from '../services/api';
+import { toApiError } from '../services/errors';
+import { cancelStepUp, completeStepUp, getPendingStepUp, subscribeStepUp } from '../services/stepUp';
+import MfaCodeForm from './MfaCodeForm';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+/**
+ * Answers `requestStepUp` calls. Mounted once at the app root so any
+ * sensitive action can ask for a fresh second factor without wiring its own
+ * dialog.
+ */
+const StepUpDialog: React.FC = () => {
+  const pending = useSyncExternalStore(subscribeStepUp, getPendingStepUp);
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setChallenge(null);
+    setError(null);
+    if (!pending) {
+      return;
+    }
+
+    let active = true;
+    startStepUp()
+      .then((started) => {
+        if (active) {
+          setChallenge(started);
+        }
+      })
+      .catch((err) => {
+        if (active) {
+          setError(toApiError(err, 'Failed to start verification').message);
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [pending]);
+
+  const handleVerify = async (code: string) => {
+    if (!challenge) {
+      return;
+    }
+    const grant = await verifyStepUp(challenge.challengeId, code);
+    completeStepUp(grant.stepUpToken, grant.expiresIn);
+  };
+
+  // Failing step-up too often is treated like a stolen session: sign the
+  // operator out rather than letting them retry indefinitely.
+  const handleLocked = () => {
+    endSession('locked');
+  };
+
+  return (
+    <Dialog
+      open={pending !== null}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) {
+          cancelStepUp();
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Confirm it's you</DialogTitle>
+          <DialogDescription>{pending?.reason}</DialogDescription>
+        </DialogHeader>
+        {challenge ? (
+          <MfaCodeForm
+            key={challenge.challengeId}
+            challenge={challenge}
+            submitLabel="Verify and continue"
+            onVerify={handleVerify}
+            onResend={resendStepUpCode}
+            onLocked={handleLocked}
+            onCancel={() => cancelStepUp()}
+          />
+        ) : error ? (
+          <>
+            <p className="text-sm text-destructive">{error}</p>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => cancelStepUp()}>
+                Close
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <p className="py-4 text-center text-sm text-muted-foreground">Sending verification code...</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StepUpDialog;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { TENANT_IDS, previewTenant } from '../services/tenant';
+import { useTenant } from '../hooks/use-tenant';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+/** Development-only preview of each tenant's branding. Not rendered in production builds. */
+const TenantSwitcher: React.FC = () => {
+  const tenant = useTenant();
+
+  if (!import.meta.env.DEV || TENANT_IDS.length < 2) {
+    return null;
+  }
+
+  const handleChange = (tenantId: string) => {
+    previewTenant(tenantId).catch((error) => console.error(error));
+  };
+
+  return (
+    <Select value={tenant.tenantId} onValueChange={handleChange}>
+      <SelectTrigger className="h-8 w-40 border-dashed text-xs" aria-label="Preview tenant (development only)">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TENANT_IDS.map((tenantId) => (
+          <SelectItem key={tenantId} value={tenantId}>
+            {tenantId}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TenantSwitcher;
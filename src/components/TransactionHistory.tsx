@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { Transaction, TransactionFilters, TransactionType } from '../types';
+import { transactionTypeSchema } from '../types/schemas';
+import { fetchTransactionsByAccountId, queryKeys } from '../services/api';
+import { toApiError } from '../services/errors';
+import { useQuery } from '../hooks/use-query';
+import { useTranslation } from '../hooks/use-translation';
+import { useDebouncedCallback } from '../hooks/use-debounced-callback';
+import { Money, compareMoney, formatMoney, isNegative, parseMoney, toDecimalString, tryParseMoney } from '../lib/money';
+import ErrorState from './ErrorState';
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+
+interface TransactionHistoryProps {
+  accountId: string;
+  /** The account's currency, which amount filters are parsed in. */
+  currency: string;
+}
+
+const TRANSACTION_TYPES = transactionTypeSchema.options;
+
+const ALL_TYPES = 'ALL';
+const PAGE_SIZE = 10;
+const AMOUNT_DEBOUNCE_MS = 300;
+
+interface AmountRange {
+  minAmount?: string;
+  maxAmount?: string;
+}
+
+// `null` for an empty field, `undefined` for input that is not an amount (yet).
+const parseAmountInput = (value: string, currency: string): Money | null | undefined =>
+  value.trim() === '' ? null : tryParseMoney(value, currency) ?? undefined;
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ accountId, currency }) => {
+  const { t } = useTranslation();
+  const [currentPage, setCurrentPage] = useState(0);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [minAmountInput, setMinAmountInput] = useState('');
+  const [maxAmountInput, setMaxAmountInput] = useState('');
+  const [amountRange, setAmountRange] = useState<AmountRange>({});
+  const [type, setType] = useState<string>(ALL_TYPES);
+
+  const [commitAmountRange, cancelAmountRangeCommit] = useDebouncedCallback((range: AmountRange) => {
+    setAmountRange(range);
+    setCurrentPage(0);
+  }, AMOUNT_DEBOUNCE_MS);
+
+  const minAmount = parseAmountInput(minAmountInput, currency);
+  const maxAmount = parseAmountInput(maxAmountInput, currency);
+  const getAmountError = (): string | null => {
+    if (minAmount === undefined || maxAmount === undefined) {
+      return t('transactions.invalidAmount', { example: toDecimalString(parseMoney('25', currency)) });
+    }
+    if (minAmount && maxAmount && compareMoney(minAmount, maxAmount) > 0) {
+      return t('transactions.minAboveMax');
+    }
+    return null;
+  };
+  const amountError = getAmountError();
+
+  const filters: TransactionFilters = {};
+  if (dateRange?.from) {
+    filters.from = format(dateRange.from, 'yyyy-MM-dd');
+  }
+  if (dateRange?.to) {
+    filters.to = format(dateRange.to, 'yyyy-MM-dd');
+  }
+  if (amountRange.minAmount) {
+    filters.minAmount = amountRange.minAmount;
+  }
+  if (amountRange.maxAmount) {
+    filters.maxAmount = amountRange.maxAmount;
+  }
+  if (type !== ALL_TYPES) {
+    filters.type = type as TransactionType;
+  }
+
+  const transactionsQuery = useQuery(
+    queryKeys.transactions(accountId, { page: currentPage, size: PAGE_SIZE, filters }),
+    ({ signal }) => fetchTransactionsByAccountId(accountId, currentPage, PAGE_SIZE, filters, { signal }),
+    { keepPreviousData: true }
+  );
+  const transactions: Transaction[] = transactionsQuery.data?.content ?? [];
+  const totalPages = transactionsQuery.data?.totalPages ?? 0;
+  const loading = transactionsQuery.isLoading && !transactionsQuery.data;
+  const error = transactionsQuery.error && (!transactionsQuery.data || transactionsQuery.isPreviousData)
+    ? toApiError(transactionsQuery.error, t('transactions.loadError'))
+    : null;
+
+  const handleFilterChange = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCurrentPage(0);
+  };
+
+  // Only a complete, valid range reaches the server; until then the last one
+  // stays applied and the field shows why.
+  const handleAmountChange = (nextMinInput: string, nextMaxInput: string) => {
+    setMinAmountInput(nextMinInput);
+    setMaxAmountInput(nextMaxInput);
+    const nextMin = parseAmountInput(nextMinInput, currency);
+    const nextMax = parseAmountInput(nextMaxInput, currency);
+    if (
+      nextMin === undefined ||
+      nextMax === undefined ||
+      (nextMin && nextMax && compareMoney(nextMin, nextMax) > 0)
+    ) {
+      cancelAmountRangeCommit();
+      return;
+    }
+    commitAmountRange({
+      minAmount: nextMin ? toDecimalString(nextMin) : undefined,
+      maxAmount: nextMax ? toDecimalString(nextMax) : undefined,
+    });
+  };
+
+  const handleResetFilters = () => {
+    cancelAmountRangeCommit();
+    setCurrentPage(0);
+    setDateRange(undefined);
+    setMinAmountInput('');
+    setMaxAmountInput('');
+    setAmountRange({});
+    setType(ALL_TYPES);
+  };
+
+  const formatDateRange = (range: DateRange | undefined): string => {
+    if (!range?.from) {
+      return t('transactions.anyDate');
+    }
+    if (!range.to) {
+      return format(range.from, 'PP');
+    }
+    return `${format(range.from, 'PP')} – ${format(range.to, 'PP')}`;
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          <span className="ms-2 text-sm text-muted-foreground">{t('transactions.loading')}</span>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <ErrorState
+          error={error}
+          onRetry={() => transactionsQuery.refetch()}
+          notFoundMessage={t('transactions.accountGone')}
+        />
+      );
+    }
+
+    if (transactions.length === 0) {
+      return (
+        <p className="text-center py-6 text-sm text-muted-foreground">{t('transactions.noMatches')}</p>
+      );
+    }
+
+    return (
+      <Table className={`transition-opacity ${transactionsQuery.isPreviousData ? 'opacity-60' : ''}`}>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t('transactions.date')}</TableHead>
+            <TableHead>{t('transactions.description')}</TableHead>
+            <TableHead>{t('transactions.type')}</TableHead>
+            <TableHead className="text-end">{t('transactions.amount')}</TableHead>
+            <TableHead className="text-end">{t('transactions.balance')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {transactions.map((transaction) => (
+            <TableRow key={transaction.transactionId}>
+              <TableCell className="whitespace-nowrap">
+                {format(parseISO(transaction.timestamp), 'PPp')}
+              </TableCell>
+              <TableCell>{transaction.description}</TableCell>
+              <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                {t(`transactionType.${transaction.type}`)}
+              </TableCell>
+              <TableCell className={`text-end whitespace-nowrap font-medium ${
+                isNegative(transaction.amount) ? 'text-destructive' : 'text-green-700 dark:text-green-400'
+              }`}>
+                {formatMoney(transaction.amount)}
+              </TableCell>
+              <TableCell className="text-end whitespace-nowrap">{formatMoney(transaction.balanceAfter)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="mt-4 border-t border-border pt-4">
+      <div className="flex flex-wrap items-end gap-2 mb-4">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="font-normal">
+              {formatDateRange(dateRange)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar mode="range" selected={dateRange} onSelect={handleFilterChange(setDateRange)} numberOfMonths={2} />
+          </PopoverContent>
+        </Popover>
+        <Input
+          inputMode="decimal"
+          placeholder={t('transactions.minAmount')}
+          aria-label={t('transactions.minAmount')}
+          aria-invalid={minAmount === undefined || undefined}
+          value={minAmountInput}
+          onChange={(e) => handleAmountChange(e.target.value, maxAmountInput)}
+          className="h-8 w-28"
+        />
+        <Input
+          inputMode="decimal"
+          placeholder={t('transactions.maxAmount')}
+          aria-label={t('transactions.maxAmount')}
+          aria-invalid={maxAmount === undefined || undefined}
+          value={maxAmountInput}
+          onChange={(e) => handleAmountChange(minAmountInput, e.target.value)}
+          className="h-8 w-28"
+        />
+        <Select value={type} onValueChange={handleFilterChange(setType)}>
+          <SelectTrigger className="h-8 w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>{t('transactions.allTypes')}</SelectItem>
+            {TRANSACTION_TYPES.map((transactionType) => (
+              <SelectItem key={transactionType} value={transactionType}>
+                {t(`transactionType.${transactionType}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" onClick={handleResetFilters}>
+          {t('transactions.reset')}
+        </Button>
+      </div>
+      {amountError && <p className="-mt-2 mb-4 text-sm text-destructive">{amountError}</p>}
+
+      {renderBody()}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage === 0 || loading}
+            onClick={() => setCurrentPage(currentPage - 1)}
+          >
+            {t('pagination.previous')}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {t('transactions.pageOf', { page: currentPage + 1, total: totalPages })}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage >= totalPages - 1 || loading}
+            onClick={() => setCurrentPage(currentPage + 1)}
+          >
+            {t('pagination.next')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionHistory;
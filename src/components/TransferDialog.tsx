@@ -0,0 +1,435 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { ApprovalRequest, BankAccount, TransferReceipt, TransferRequest } from '../types';
+import { createTransfer, queryKeys, submitForApproval } from '../services/api';
+import { CancelledError, ValidationError, toApiError } from '../services/errors';
+import { invalidateQueries } from '../services/queryCache';
+import { requestStepUp } from '../services/stepUp';
+import { translate } from '../services/language';
+import { useTenant } from '../hooks/use-tenant';
+import { canTransact, getAccountTypeInfo, statusAllows } from '../lib/account-registry';
+import { transferRequiresApproval } from '../lib/approvals';
+import {
+  compareMoney,
+  formatMoney,
+  getMoneyInputError,
+  parseMoney,
+  tryParseMoney,
+} from '../lib/money';
+import ApprovalSubmitted from './ApprovalSubmitted';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+interface TransferDialogProps {
+  open: boolean;
+  accounts: BankAccount[];
+  sourceAccountId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onTransferComplete: (receipt: TransferReceipt) => void;
+}
+
+const getTransferIssue = (account: BankAccount, role: 'Source' | 'Destination'): string | null => {
+  if (!statusAllows(account, 'transact')) {
+    return translate(role === 'Source' ? 'transfer.sourceInactive' : 'transfer.destinationInactive');
+  }
+  if (!canTransact(account, 'transfer')) {
+    return translate('transfer.typeNotAllowed', {
+      type: translate(getAccountTypeInfo(account.accountType).labelKey),
+    });
+  }
+  return null;
+};
+
+const createTransferSchema = (accounts: BankAccount[]) =>
+  z
+    .object({
+      sourceAccountId: z.string().min(1, 'Select a source account'),
+      destinationAccountId: z.string().min(1, 'Select a destination account'),
+      amount: z
+        .string()
+        .regex(/^\d+(\.\d+)?$/, 'Enter an amount such as 25 or 25.50')
+        .refine((value) => Number(value) > 0, 'Amount must be greater than zero'),
+      memo: z.string().max(140, 'Memo must be 140 characters or fewer'),
+    })
+    .superRefine((values, ctx) => {
+      if (values.sourceAccountId && values.sourceAccountId === values.destinationAccountId) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['destinationAccountId'],
+          message: 'Destination must differ from the source account',
+        });
+      }
+
+      const source = accounts.find((account) => account.accountId === values.sourceAccountId);
+      const sourceIssue = source && getTransferIssue(source, 'Source');
+      if (sourceIssue) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['sourceAccountId'],
+          message: sourceIssue,
+        });
+      }
+      const amountError = source && getMoneyInputError(values.amount, source.balance.currency);
+      if (amountError) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['amount'],
+          message: amountError,
+        });
+      }
+      const amount = source && tryParseMoney(values.amount, source.balance.currency);
+      if (
+        source &&
+        amount &&
+        getAccountTypeInfo(source.accountType).balanceKind !== 'liability' &&
+        compareMoney(amount, source.balance) > 0
+      ) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['amount'],
+          message: 'Amount exceeds the available balance',
+        });
+      }
+
+      const destination = accounts.find((account) => account.accountId === values.destinationAccountId);
+      const destinationIssue = destination && getTransferIssue(destination, 'Destination');
+      if (destinationIssue) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['destinationAccountId'],
+          message: destinationIssue,
+        });
+      } else if (source && destination && source.balance.currency !== destination.balance.currency) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['destinationAccountId'],
+          message: `Destination must also hold ${source.balance.currency}; cross-currency transfers are not supported`,
+        });
+      }
+    });
+
+type TransferFormValues = z.infer<ReturnType<typeof createTransferSchema>>;
+
+const TransferDialog: React.FC<TransferDialogProps> = ({
+  open,
+  accounts,
+  sourceAccountId,
+  onOpenChange,
+  onTransferComplete,
+}) => {
+  const tenant = useTenant();
+  const [pendingTransfer, setPendingTransfer] = useState<TransferRequest | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [receipt, setReceipt] = useState<TransferReceipt | null>(null);
+  const [submittedApproval, setSubmittedApproval] = useState<ApprovalRequest | null>(null);
+  const needsApproval =
+    pendingTransfer !== null && transferRequiresApproval(pendingTransfer.amount, tenant.transferApprovalThresholds);
+
+  const form = useForm<TransferFormValues>({
+    resolver: zodResolver(createTransferSchema(accounts)),
+    defaultValues: {
+      sourceAccountId: sourceAccountId ?? '',
+      destinationAccountId: '',
+      amount: '',
+      memo: '',
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        sourceAccountId: sourceAccountId ?? '',
+        destinationAccountId: '',
+        amount: '',
+        memo: '',
+      });
+      setPendingTransfer(null);
+      setError(null);
+      setReceipt(null);
+      setSubmittedApproval(null);
+    }
+  }, [open, sourceAccountId, form]);
+
+  const findAccount = (accountId: string) =>
+    accounts.find((account) => account.accountId === accountId);
+
+  const describeAccount = (accountId: string): string => {
+    const account = findAccount(accountId);
+    return account ? `${account.accountName} (${account.accountId})` : accountId;
+  };
+
+  const handleSubmit = (values: TransferFormValues) => {
+    setError(null);
+    setPendingTransfer({
+      sourceAccountId: values.sourceAccountId,
+      destinationAccountId: values.destinationAccountId,
+      amount: parseMoney(values.amount, findAccount(values.sourceAccountId)?.balance.currency ?? tenant.currency),
+      memo: values.memo.trim(),
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingTransfer) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const stepUpToken = await requestStepUp('Verify your identity to send this transfer.');
+      if (needsApproval) {
+        setSubmittedApproval(
+          await submitForApproval({ kind: 'TRANSFER', transfer: pendingTransfer }, { stepUpToken })
+        );
+        invalidateQueries(queryKeys.approvals());
+        return;
+      }
+      const transferReceipt = await createTransfer(pendingTransfer, { stepUpToken });
+      setReceipt(transferReceipt);
+      onTransferComplete(transferReceipt);
+    } catch (err) {
+      const apiError = toApiError(err, 'Failed to create transfer');
+      if (apiError instanceof CancelledError) {
+        return;
+      }
+      if (apiError instanceof ValidationError) {
+        for (const fieldError of apiError.fieldErrors) {
+          if (fieldError.field in form.getValues()) {
+            form.setError(fieldError.field as keyof TransferFormValues, { message: fieldError.message });
+          }
+        }
+      }
+      setError(apiError.message);
+    } finally {
+      setSubmitting(false);
+      setPendingTransfer(null);
+    }
+  };
+
+  const renderReceipt = (transferReceipt: TransferReceipt) => (
+    <>
+      <DialogHeader>
+        <DialogTitle>Transfer submitted</DialogTitle>
+        <DialogDescription>
+          Keep the reference ID for any follow-up with the customer.
+        </DialogDescription>
+      </DialogHeader>
+      <dl className="grid grid-cols-3 gap-y-2 text-sm">
+        <dt className="text-muted-foreground">Reference ID</dt>
+        <dd className="col-span-2 font-mono font-medium text-foreground">{transferReceipt.referenceId}</dd>
+        <dt className="text-muted-foreground">From</dt>
+        <dd className="col-span-2 text-foreground">{describeAccount(transferReceipt.sourceAccountId)}</dd>
+        <dt className="text-muted-foreground">To</dt>
+        <dd className="col-span-2 text-foreground">{describeAccount(transferReceipt.destinationAccountId)}</dd>
+        <dt className="text-muted-foreground">Amount</dt>
+        <dd className="col-span-2 font-medium text-foreground">{formatMoney(transferReceipt.amount)}</dd>
+        {transferReceipt.memo && (
+          <>
+            <dt className="text-muted-foreground">Memo</dt>
+            <dd className="col-span-2 text-foreground">{transferReceipt.memo}</dd>
+          </>
+        )}
+        <dt className="text-muted-foreground">Status</dt>
+        <dd className="col-span-2 text-foreground">{transferReceipt.status}</dd>
+        <dt className="text-muted-foreground">Submitted</dt>
+        <dd className="col-span-2 text-foreground">
+          {format(parseISO(transferReceipt.createdAt), 'PPp')}
+        </dd>
+      </dl>
+      <DialogFooter>
+        <Button onClick={() => onOpenChange(false)}>Done</Button>
+      </DialogFooter>
+    </>
+  );
+
+  const renderForm = () => (
+    <>
+      <DialogHeader>
+        <DialogTitle>Transfer funds</DialogTitle>
+        <DialogDescription>
+          Move money between this customer's accounts.
+        </DialogDescription>
+      </DialogHeader>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="sourceAccountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>From</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select source account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.accountId} value={account.accountId}>
+                        {account.accountName} · {formatMoney(account.balance)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="destinationAccountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>To</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select destination account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.accountId} value={account.accountId}>
+                        {account.accountName} · {formatMoney(account.balance)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input inputMode="decimal" placeholder="0.00" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="memo"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Memo</FormLabel>
+                <FormControl>
+                  <Textarea rows={2} placeholder="Optional note for the statement" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? 'Transferring...' : 'Review transfer'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </>
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          {submittedApproval ? (
+            <ApprovalSubmitted approval={submittedApproval} onDone={() => onOpenChange(false)} />
+          ) : receipt ? (
+            renderReceipt(receipt)
+          ) : (
+            renderForm()
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={pendingTransfer !== null}
+        onOpenChange={(isOpen) => {
+          if (!isOpen && !submitting) {
+            setPendingTransfer(null);
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirm transfer</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingTransfer &&
+                `Transfer ${formatMoney(pendingTransfer.amount)} from ${describeAccount(
+                  pendingTransfer.sourceAccountId
+                )} to ${describeAccount(pendingTransfer.destinationAccountId)}? ${
+                  needsApproval
+                    ? 'This amount is above the approval limit, so it will wait for a second operator to approve it.'
+                    : 'This cannot be undone.'
+                }`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitting}>Back</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={submitting}
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+            >
+              {submitting ? 'Transferring...' : needsApproval ? 'Submit for approval' : 'Confirm transfer'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default TransferDialog;
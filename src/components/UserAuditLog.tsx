@@ -0,0 +1,34 @@
+import React from 'react';
+import { usePermission } from '../hooks/use-permission';
+import AuditTrail from './AuditTrail';
+
+interface UserAuditLogProps {
+  userId: string;
+  onBack: () => void;
+}
+
+const UserAuditLog: React.FC<UserAuditLogProps> = ({ userId, onBack }) => {
+  const canView = usePermission('audit.view');
+
+  return (
+    <div className="bg-card rounded-lg shadow-md p-6">
+      <button
+        onClick={onBack}
+        className="mb-4 inline-flex items-center text-sm font-medium text-primary hover:text-primary/80"
+      >
+        <svg className="h-4 w-4 me-1 rtl:rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back to accounts
+      </button>
+      <h2 className="text-xl font-semibold text-foreground mb-4">Audit log for {userId}</h2>
+      {canView ? (
+        <AuditTrail scope={{ type: 'user', userId }} />
+      ) : (
+        <p className="text-center py-8 text-muted-foreground">Your role does not have access to audit logs.</p>
+      )}
+    </div>
+  );
+};
+
+export default UserAuditLog;
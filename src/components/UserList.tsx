@@ -1,6 +1,24 @@
-import React, { useState, useEffect } from 'react';
-import { User, PagedResponse } from '../types';
-import { fetchUsers } from '../services/api';
+import React, { useState, useEffect, useRef } from 'react';
+import { User, UserSort } from '../types';
+import { MessageKey } from '../locales';
+import { fetchUsers, queryKeys } from '../services/api';
+import { toApiError } from '../services/errors';
+import { hasCommandModifier, isEditableTarget } from '../lib/keyboard';
+import { useQuery } from '../hooks/use-query';
+import { useDebouncedCallback } from '../hooks/use-debounced-callback';
+import { usePermission } from '../hooks/use-permission';
+import { useRovingFocus } from '../hooks/use-roving-focus';
+import { useTranslation } from '../hooks/use-translation';
+import { USER_PAGE_SIZES, useUserListParams } from '../hooks/use-user-list-params';
+import ErrorState from './ErrorState';
+import { Input } from './ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
 import {
   Pagination,
   PaginationContent,
@@ -11,45 +29,117 @@ import {
   PaginationEllipsis,
 } from './ui/pagination';
 
+const SORT_OPTIONS: { value: UserSort; labelKey: MessageKey }[] = [
+  { value: 'userId,asc', labelKey: 'userList.sortAsc' },
+  { value: 'userId,desc', labelKey: 'userList.sortDesc' },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
 interface UserListProps {
   selectedUserId: string | null;
   onUserSelect: (userId: string) => void;
 }
 
 const UserList: React.FC<UserListProps> = ({ selectedUserId, onUserSelect }) => {
-  const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(0);
-  const [pageSize] = useState(20);
-  const [totalPages, setTotalPages] = useState(0);
-  const [totalElements, setTotalElements] = useState(0);
+  const [params, setParams] = useUserListParams();
+  const { page: currentPage, size: pageSize, sort, search } = params;
+  const [searchInput, setSearchInput] = useState(search);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Set when the page was changed from the keyboard inside the list, so focus
+  // follows onto the new page instead of being lost with the old rows.
+  const focusNewPageRef = useRef(false);
+  const canViewUsers = usePermission('users.view');
+  const { t, formatNumber } = useTranslation();
+
+  const [commitSearch, cancelSearchCommit] = useDebouncedCallback((value: string) => {
+    setParams({ search: value }, { replace: true });
+  }, SEARCH_DEBOUNCE_MS);
+
+  useEffect(() => {
+    // Back/forward can change the search underneath the input; follow it.
+    setSearchInput((current) => (current.trim() === search ? current : search));
+    cancelSearchCommit();
+  }, [search, cancelSearchCommit]);
+
+  const usersQuery = useQuery(
+    canViewUsers ? queryKeys.users(params) : null,
+    ({ signal }) => fetchUsers(params, { signal }),
+    { keepPreviousData: true }
+  );
+  const users: User[] = usersQuery.data?.content ?? [];
+  const totalPages = usersQuery.data?.totalPages ?? 0;
+  const totalElements = usersQuery.data?.totalElements ?? 0;
+  const loading = usersQuery.isLoading && !usersQuery.data;
+  const error = usersQuery.error && (!usersQuery.data || usersQuery.isPreviousData)
+    ? toApiError(usersQuery.error, t('userList.loadError'))
+    : null;
+
+  const { getItemProps, focusItem } = useRovingFocus(
+    users.length,
+    users.findIndex((user) => user.userId === selectedUserId)
+  );
 
   useEffect(() => {
-    loadUsers(currentPage);
-  }, [currentPage]);
-
-  const loadUsers = async (page: number) => {
-    try {
-      setLoading(true);
-      setError(null);
-      const userData = await fetchUsers(page, pageSize);
-      setUsers(userData.content);
-      setTotalPages(userData.totalPages);
-      setTotalElements(userData.totalElements);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load users');
-    } finally {
-      setLoading(false);
+    if (focusNewPageRef.current && usersQuery.data && !usersQuery.isPreviousData) {
+      focusNewPageRef.current = false;
+      focusItem(0);
     }
-  };
+  }, [usersQuery.data, usersQuery.isPreviousData, focusItem]);
+
+  useEffect(() => {
+    if (!canViewUsers) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === '/' && !hasCommandModifier(event) && !isEditableTarget(event.target)) {
+        event.preventDefault();
+        searchInputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canViewUsers]);
 
   const handleRetry = () => {
-    loadUsers(currentPage);
+    usersQuery.refetch();
   };
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    setParams({ page });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // React bubbles keys from the portalled select menus here too; leave those alone.
+    if (!event.currentTarget.contains(event.target as Node) || hasCommandModifier(event)) {
+      return;
+    }
+    const isPageKey = event.key === 'PageUp' || event.key === 'PageDown';
+    const isBracket = event.key === '[' || event.key === ']';
+    if (!isPageKey && !(isBracket && !isEditableTarget(event.target))) {
+      return;
+    }
+    event.preventDefault();
+    const page = event.key === 'PageUp' || event.key === '[' ? currentPage - 1 : currentPage + 1;
+    if (page < 0 || page >= totalPages) {
+      return;
+    }
+    focusNewPageRef.current = listRef.current?.contains(event.target as Node) ?? false;
+    handlePageChange(page);
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    commitSearch(value.trim());
+  };
+
+  const handleSortChange = (value: string) => {
+    setParams({ sort: value as UserSort });
+  };
+
+  const handlePageSizeChange = (value: string) => {
+    setParams({ size: Number(value) });
   };
 
   const renderPaginationItems = () => {
@@ -68,7 +158,7 @@ const UserList: React.FC<UserListProps> = ({ selectedUserId, onUserSelect }) =>
                 handlePageChange(i);
               }}
             >
-              {i + 1}
+              {formatNumber(i + 1)}
             </PaginationLink>
           </PaginationItem>
         );
@@ -84,7 +174,7 @@ const UserList: React.FC<UserListProps> = ({ selectedUserId, onUserSelect }) =>
               handlePageChange(0);
             }}
           >
-            1
+            {formatNumber(1)}
           </PaginationLink>
         </PaginationItem>
       );
@@ -100,7 +190,7 @@ const UserList: React.FC<UserListProps> = ({ selectedUserId, onUserSelect }) =>
       const start = Math.max(1, currentPage - 1);
       const end = Math.min(totalPages - 1, currentPage + 1);
 
-      for (let i = start; i < end; i++) {
+      for (let i = start; i <= end; i++) {
         if (i !== 0 && i !== totalPages - 1) {
           items.push(
             <PaginationItem key={i}>
@@ -112,7 +202,7 @@ const UserList: React.FC<UserListProps> = ({ selectedUserId, onUserSelect }) =>
                   handlePageChange(i);
                 }}
               >
-                {i + 1}
+                {formatNumber(i + 1)}
               </PaginationLink>
             </PaginationItem>
           );
@@ -138,7 +228,7 @@ const UserList: React.FC<UserListProps> = ({ selectedUserId, onUserSelect }) =>
                 handlePageChange(totalPages - 1);
               }}
             >
-              {totalPages}
+              {formatNumber(totalPages)}
             </PaginationLink>
           </PaginationItem>
         );
@@ -148,117 +238,165 @@ const UserList: React.FC<UserListProps> = ({ selectedUserId, onUserSelect }) =>
     return items;
   };
 
-  if (loading) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-800">Users</h2>
+  const renderControls = () => (
+    <div className="flex flex-wrap gap-2 mb-4">
+      <Input
+        ref={searchInputRef}
+        type="search"
+        placeholder={t('userList.searchPlaceholder')}
+        value={searchInput}
+        onChange={(e) => handleSearchChange(e.target.value)}
+        aria-label={t('userList.searchLabel')}
+        className="flex-1 min-w-[10rem]"
+      />
+      <Select value={sort} onValueChange={handleSortChange}>
+        <SelectTrigger className="w-40" aria-label={t('userList.sortLabel')}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {t(option.labelKey)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={String(pageSize)} onValueChange={handlePageSizeChange}>
+        <SelectTrigger className="w-28" aria-label={t('userList.pageSizeLabel')}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {USER_PAGE_SIZES.map((size) => (
+            <SelectItem key={size} value={String(size)}>
+              {t('userList.pageSizeOption', { size })}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderBody = () => {
+    if (!canViewUsers) {
+      return (
+        <p className="text-center py-8 text-muted-foreground">{t('userList.noAccess')}</p>
+      );
+    }
+
+    if (loading) {
+      return (
         <div className="flex items-center justify-center py-8">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-          <span className="ml-2 text-gray-600">Loading users...</span>
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          <span className="ms-2 text-muted-foreground">{t('userList.loading')}</span>
         </div>
-      </div>
-    );
-  }
+      );
+    }
 
-  if (error) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-800">Users</h2>
-        <div className="text-center py-8">
-          <div className="text-red-600 mb-4">
-            <svg className="mx-auto h-12 w-12 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L4.268 18.5c-.77.833.192 2.5 1.732 2.5z" />
-            </svg>
-            <p className="text-sm">{error}</p>
-          </div>
-          <button
-            onClick={handleRetry}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
-          >
-            Try Again
-          </button>
-        </div>
-      </div>
-    );
-  }
+    if (error) {
+      return <ErrorState error={error} onRetry={handleRetry} />;
+    }
 
-  if (users.length === 0) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-800">Users</h2>
-        <div className="text-center py-8 text-gray-500">
+    if (users.length === 0) {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
           <svg className="mx-auto h-12 w-12 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
           </svg>
-          <p>No users found</p>
+          <p>{search ? t('userList.noMatches', { search }) : t('userList.empty')}</p>
         </div>
-      </div>
+      );
+    }
+
+    return (
+      <>
+        <div
+          ref={listRef}
+          className={`space-y-2 mb-6 transition-opacity ${usersQuery.isPreviousData ? 'opacity-60' : ''}`}
+          aria-busy={usersQuery.isFetching}
+        >
+          {users.map((user, index) => (
+            <button
+              key={user.userId}
+              {...getItemProps(index)}
+              onClick={() => onUserSelect(user.userId)}
+              aria-current={selectedUserId === user.userId ? 'true' : undefined}
+              className={`w-full text-start p-3 rounded-md transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background ${
+                selectedUserId === user.userId
+                  ? 'bg-primary/10 border-2 border-primary text-foreground'
+                  : 'bg-muted/50 hover:bg-accent border-2 border-transparent text-foreground'
+              }`}
+            >
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <svg className="h-8 w-8 text-muted-foreground" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                  </svg>
+                </div>
+                <div className="ms-3">
+                  <p className="text-sm font-medium">{user.userId}</p>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {totalPages > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-label={t('pagination.previousPage')}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (currentPage > 0) {
+                      handlePageChange(currentPage - 1);
+                    }
+                  }}
+                  aria-disabled={currentPage === 0}
+                  className={currentPage === 0 ? 'pointer-events-none opacity-50' : ''}
+                >
+                  {t('pagination.previous')}
+                </PaginationPrevious>
+              </PaginationItem>
+
+              {renderPaginationItems()}
+
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-label={t('pagination.nextPage')}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (currentPage < totalPages - 1) {
+                      handlePageChange(currentPage + 1);
+                    }
+                  }}
+                  aria-disabled={currentPage >= totalPages - 1}
+                  className={currentPage >= totalPages - 1 ? 'pointer-events-none opacity-50' : ''}
+                >
+                  {t('pagination.next')}
+                </PaginationNext>
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </>
     );
-  }
+  };
 
   return (
-    <div className="bg-white rounded-lg shadow-md p-6">
+    <div className="bg-card rounded-lg shadow-md p-6" onKeyDown={handleKeyDown}>
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-semibold text-gray-800">Users</h2>
-        <span className="text-sm text-gray-500">
-          {totalElements} total users
-        </span>
+        <h2 className="text-xl font-semibold text-foreground">{t('userList.title')}</h2>
+        {usersQuery.data && (
+          <span className="text-sm text-muted-foreground">
+            {t('userList.total', { count: totalElements })}
+          </span>
+        )}
       </div>
-      <div className="space-y-2 mb-6">
-        {users.map((user) => (
-          <button
-            key={user.userId}
-            onClick={() => onUserSelect(user.userId)}
-            className={`w-full text-left p-3 rounded-md transition-colors ${
-              selectedUserId === user.userId
-                ? 'bg-blue-100 border-2 border-blue-500 text-blue-800'
-                : 'bg-gray-50 hover:bg-gray-100 border-2 border-transparent text-gray-700'
-            }`}
-          >
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <svg className="h-8 w-8 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                </svg>
-              </div>
-              <div className="ml-3">
-                <p className="text-sm font-medium">{user.userId}</p>
-              </div>
-            </div>
-          </button>
-        ))}
-      </div>
-      
-      {totalPages > 1 && (
-        <Pagination>
-          <PaginationContent>
-            <PaginationItem>
-              <PaginationPrevious
-                href="#"
-                onClick={(e) => {
-                  e.preventDefault();
-                  if (currentPage > 0) {
-                    handlePageChange(currentPage - 1);
-                  }
-                }}
-                className={currentPage === 0 ? 'pointer-events-none opacity-50' : ''}
-              />
-            </PaginationItem>
-            
-            {renderPaginationItems()}
-            
-            <PaginationItem>
-              <PaginationNext
-                href="#"
-                onClick={(e) => {
-                  e.preventDefault();
-                }}
-                className={currentPage === totalPages - 1 ? 'pointer-events-none opacity-50' : ''}
-              />
-            </PaginationItem>
-          </PaginationContent>
-        </Pagination>
-      )}
+      {canViewUsers && renderControls()}
+      {renderBody()}
     </div>
   );
 };
@@ -0,0 +1,107 @@
+import React, { useEffect } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { accountPath, resolveAccountSegment, toAccountSegment } from '../services/accountRefs';
+import { recordRecentUser } from '../services/recent';
+import { usePermission } from '../hooks/use-permission';
+import UserList from './UserList';
+import AccountList from './AccountList';
+import AccountDetail from './AccountDetail';
+import UserAuditLog from './UserAuditLog';
+
+interface UserWorkspaceProps {
+  /** Shows the selected user's audit log instead of their accounts. */
+  showAudit?: boolean;
+}
+
+const UserWorkspace: React.FC<UserWorkspaceProps> = ({ showAudit = false }) => {
+  const { userId = null, accountId: accountSegment = null } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const canViewFullId = usePermission('accounts.viewFullId');
+  const accountId = accountSegment ? resolveAccountSegment(accountSegment) : null;
+
+  useEffect(() => {
+    if (userId) {
+      recordRecentUser(userId);
+    }
+  }, [userId]);
+
+  // A ref from an earlier sign-in no longer resolves; a full ID pasted by an
+  // operator who may not see it is swapped for a ref.
+  useEffect(() => {
+    if (!userId || !accountSegment) {
+      return;
+    }
+    if (!accountId) {
+      navigate({ pathname: `/users/${encodeURIComponent(userId)}`, search: location.search }, { replace: true });
+      return;
+    }
+    if (!canViewFullId && accountSegment === accountId) {
+      navigate({ pathname: accountPath(userId, accountId, false), search: location.search }, { replace: true });
+    }
+  }, [userId, accountSegment, accountId, canViewFullId, location.search, navigate]);
+
+  const handleUserSelect = (selectedUserId: string) => {
+    navigate({
+      pathname: `/users/${encodeURIComponent(selectedUserId)}`,
+      search: location.search,
+    });
+  };
+
+  const navigateWithinUser = (subpath: string) => {
+    if (!userId) {
+      return;
+    }
+
+    navigate({
+      pathname: `/users/${encodeURIComponent(userId)}${subpath}`,
+      search: location.search,
+    });
+  };
+
+  const handleAccountSelect = (selectedAccountId: string | null) => {
+    navigateWithinUser(
+      selectedAccountId
+        ? `/accounts/${encodeURIComponent(toAccountSegment(selectedAccountId, canViewFullId))}`
+        : ''
+    );
+  };
+
+  const renderPanel = () => {
+    if (userId && accountId) {
+      return (
+        <AccountDetail
+          userId={userId}
+          accountId={accountId}
+          onBack={() => handleAccountSelect(null)}
+        />
+      );
+    }
+    if (showAudit && userId) {
+      return <UserAuditLog userId={userId} onBack={() => handleAccountSelect(null)} />;
+    }
+    return (
+      <AccountList
+        userId={userId}
+        onAccountSelect={handleAccountSelect}
+        onAuditOpen={() => navigateWithinUser('/audit')}
+      />
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="lg:col-span-1">
+        <UserList
+          selectedUserId={userId}
+          onUserSelect={handleUserSelect}
+        />
+      </div>
+      <div className="lg:col-span-1">
+        {renderPanel()}
+      </div>
+    </div>
+  );
+};
+
+export default UserWorkspace;
@@ -0,0 +1,69 @@
+import * as React from "react"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { DayPicker } from "react-day-picker"
+
+import { cn } from "@/lib/utils"
+import { buttonVariants } from "@/components/ui/button"
+
+export type CalendarProps = React.ComponentProps<typeof DayPicker>
+
+function Calendar({
+  className,
+  classNames,
+  showOutsideDays = true,
+  ...props
+}: CalendarProps) {
+  return (
+    <DayPicker
+      showOutsideDays={showOutsideDays}
+      className={cn("p-3", className)}
+      classNames={{
+        months: "relative flex flex-col gap-4 sm:flex-row",
+        month: "flex flex-col gap-4",
+        month_caption: "flex h-7 items-center justify-center",
+        caption_label: "text-sm font-medium",
+        nav: "absolute inset-x-0 top-0 flex items-center justify-between",
+        button_previous: cn(
+          buttonVariants({ variant: "outline" }),
+          "z-10 h-7 w-7 bg-transparent p-0 opacity-50 hover:opacity-100"
+        ),
+        button_next: cn(
+          buttonVariants({ variant: "outline" }),
+          "z-10 h-7 w-7 bg-transparent p-0 opacity-50 hover:opacity-100"
+        ),
+        month_grid: "w-full border-collapse",
+        weekdays: "flex",
+        weekday:
+          "w-8 rounded-md text-[0.8rem] font-normal text-zinc-500 dark:text-zinc-400",
+        week: "mt-2 flex w-full",
+        day: "relative h-8 w-8 p-0 text-center text-sm focus-within:relative focus-within:z-20 [&:has([aria-selected])]:bg-zinc-100 [&:has([aria-selected].day-outside)]:bg-zinc-100/50 first:[&:has([aria-selected])]:rounded-l-md last:[&:has([aria-selected])]:rounded-r-md dark:[&:has([aria-selected])]:bg-zinc-800 dark:[&:has([aria-selected].day-outside)]:bg-zinc-800/50",
+        day_button: cn(
+          buttonVariants({ variant: "ghost" }),
+          "h-8 w-8 p-0 font-normal aria-selected:opacity-100"
+        ),
+        range_start: "day-range-start rounded-l-md",
+        range_end: "day-range-end rounded-r-md",
+        selected:
+          "[&>button]:bg-zinc-900 [&>button]:text-zinc-50 [&>button]:hover:bg-zinc-900 [&>button]:hover:text-zinc-50 dark:[&>button]:bg-zinc-50 dark:[&>button]:text-zinc-900",
+        range_middle:
+          "[&>button]:bg-transparent [&>button]:text-zinc-900 dark:[&>button]:bg-transparent dark:[&>button]:text-zinc-50",
+        today: "[&>button]:bg-zinc-100 [&>button]:text-zinc-900 dark:[&>button]:bg-zinc-800 dark:[&>button]:text-zinc-50",
+        outside:
+          "day-outside text-zinc-500 aria-selected:text-zinc-500 dark:text-zinc-400",
+        disabled: "text-zinc-500 opacity-50 dark:text-zinc-400",
+        hidden: "invisible",
+        ...classNames,
+      }}
+      components={{
+        Chevron: ({ orientation, className }) => {
+          const Icon = orientation === "left" ? ChevronLeft : ChevronRight
+          return <Icon className={cn("h-4 w-4", className)} />
+        },
+      }}
+      {...props}
+    />
+  )
+}
+Calendar.displayName = "Calendar"
+
+export { Calendar }
@@ -0,0 +1,29 @@
+import * as React from "react"
+
+export function useDebouncedCallback<Args extends unknown[]>(
+  callback: (...args: Args) => void,
+  delayMs: number
+) {
+  const callbackRef = React.useRef(callback)
+  const timeoutRef = React.useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+
+  React.useEffect(() => {
+    callbackRef.current = callback
+  })
+
+  const cancel = React.useCallback(() => {
+    clearTimeout(timeoutRef.current)
+  }, [])
+
+  const run = React.useCallback(
+    (...args: Args) => {
+      cancel()
+      timeoutRef.current = setTimeout(() => callbackRef.current(...args), delayMs)
+    },
+    [cancel, delayMs]
+  )
+
+  React.useEffect(() => cancel, [cancel])
+
+  return [run, cancel] as const
+}
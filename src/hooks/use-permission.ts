@@ -0,0 +1,19 @@
+import * as React from "react"
+
+import { roleHasPermission, type Permission } from "@/lib/permissions"
+
+import { useSession } from "./use-session"
+
+/** Whether the signed-in operator's role grants `permission`; `false` when signed out. */
+export function usePermission(permission: Permission): boolean {
+  return usePermissions()(permission)
+}
+
+/** A permission check for the signed-in operator, for use inside loops and callbacks. */
+export function usePermissions(): (permission: Permission) => boolean {
+  const role = useSession()?.operator.role ?? null
+  return React.useCallback(
+    (permission: Permission) => (role ? roleHasPermission(role, permission) : false),
+    [role]
+  )
+}
@@ -0,0 +1,98 @@
+import * as React from "react"
+
+import {
+  DEFAULT_STALE_TIME_MS,
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  isQueryStale,
+  subscribeQuery,
+  type QueryFetcher,
+  type QueryKey,
+} from "@/services/queryCache"
+
+interface UseQueryOptions {
+  staleTime?: number
+  keepPreviousData?: boolean
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined
+  error: unknown
+  isLoading: boolean
+  isFetching: boolean
+  isPreviousData: boolean
+  refetch: () => Promise<T | undefined>
+}
+
+const noopSubscribe = () => () => {}
+
+/**
+ * Reads a query from the shared cache. The fetcher receives an AbortSignal that
+ * fires once no component needs the result any more; data is always read for
+ * the current key, so a late response for an old key can never be rendered.
+ */
+export function useQuery<T>(
+  key: QueryKey | null,
+  fetcher: QueryFetcher<T>,
+  { staleTime = DEFAULT_STALE_TIME_MS, keepPreviousData = false }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  const hash = key ? hashQueryKey(key) : null
+  // Callers build a new key array every render; the hash keeps identity stable.
+  const stableKey = React.useMemo(
+    () => (hash ? (JSON.parse(hash) as QueryKey) : null),
+    [hash]
+  )
+  const fetcherRef = React.useRef(fetcher)
+  fetcherRef.current = fetcher
+
+  const subscribe = React.useCallback(
+    (listener: () => void) =>
+      stableKey ? subscribeQuery(stableKey, listener) : noopSubscribe(),
+    [stableKey]
+  )
+  const getSnapshot = React.useCallback(
+    () => (stableKey ? getQueryState<T>(stableKey) : null),
+    [stableKey]
+  )
+  const state = React.useSyncExternalStore(subscribe, getSnapshot)
+
+  const revalidate = React.useCallback(
+    (force: boolean) => {
+      if (!stableKey) {
+        return Promise.resolve(undefined)
+      }
+      return fetchQuery(stableKey, (context) => fetcherRef.current(context), { staleTime, force }).catch(
+        () => undefined
+      )
+    },
+    [stableKey, staleTime]
+  )
+
+  const isInvalidated = state?.isInvalidated ?? false
+  React.useEffect(() => {
+    if (stableKey && isQueryStale(stableKey, staleTime)) {
+      revalidate(false)
+    }
+  }, [stableKey, isInvalidated, staleTime, revalidate])
+
+  const previousDataRef = React.useRef<T | undefined>(undefined)
+  if (state?.data !== undefined) {
+    previousDataRef.current = state.data
+  }
+
+  const hasOwnData = state?.data !== undefined
+  const isPreviousData = !hasOwnData && keepPreviousData && previousDataRef.current !== undefined
+  const data = hasOwnData ? state?.data : isPreviousData ? previousDataRef.current : undefined
+
+  const refetch = React.useCallback(() => revalidate(true), [revalidate])
+
+  return {
+    data,
+    error: state?.error ?? null,
+    isLoading: key !== null && !hasOwnData && !state?.error,
+    isFetching: state?.isFetching ?? false,
+    isPreviousData,
+    refetch,
+  }
+}
@@ -0,0 +1,55 @@
+import * as React from "react"
+
+const targetIndex = (key: string, index: number, count: number): number | null => {
+  switch (key) {
+    case "ArrowDown":
+      return Math.min(index + 1, count - 1)
+    case "ArrowUp":
+      return Math.max(index - 1, 0)
+    case "Home":
+      return 0
+    case "End":
+      return count - 1
+    default:
+      return null
+  }
+}
+
+/**
+ * Roving tabindex for a vertical list: only one item is in the tab order, and
+ * the arrow keys, Home and End move focus between items. Keys pressed on
+ * controls inside an item are left to those controls.
+ *
+ * `initialIndex` is the item Tab lands on before the operator has moved focus
+ * within the list, such as the selected row.
+ */
+export function useRovingFocus(count: number, initialIndex = 0) {
+  const [focusedIndex, setFocusedIndex] = React.useState<number | null>(null)
+  const itemsRef = React.useRef<(HTMLElement | null)[]>([])
+  const activeIndex = Math.min(Math.max(focusedIndex ?? initialIndex, 0), Math.max(count - 1, 0))
+
+  const focusItem = React.useCallback((index: number) => {
+    setFocusedIndex(index)
+    itemsRef.current[index]?.focus()
+  }, [])
+
+  const getItemProps = (index: number) => ({
+    ref: (element: HTMLElement | null) => {
+      itemsRef.current[index] = element
+    },
+    tabIndex: index === activeIndex ? 0 : -1,
+    onFocus: () => setFocusedIndex(index),
+    onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => {
+      if (event.target !== event.currentTarget) {
+        return
+      }
+      const next = targetIndex(event.key, index, count)
+      if (next !== null) {
+        event.preventDefault()
+        focusItem(next)
+      }
+    },
+  })
+
+  return { getItemProps, focusItem }
+}
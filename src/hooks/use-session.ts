@@ -0,0 +1,8 @@
+import * as React from "react"
+
+import { getSession, subscribeSession, type Session } from "@/services/session"
+
+/** The signed-in operator's session, or `null` when signed out. */
+export function useSession(): Session | null {
+  return React.useSyncExternalStore(subscribeSession, getSession)
+}
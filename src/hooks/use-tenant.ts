@@ -0,0 +1,9 @@
+import * as React from "react"
+
+import { getTenant, subscribeTenant } from "@/services/tenant"
+import type { TenantConfig } from "@/types"
+
+/** The active tenant's branding and defaults. */
+export function useTenant(): TenantConfig {
+  return React.useSyncExternalStore(subscribeTenant, getTenant)
+}
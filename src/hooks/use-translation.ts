@@ -0,0 +1,38 @@
+import * as React from "react"
+
+import { formatMessage, type MessageParams } from "@/lib/i18n"
+import { LANGUAGE_REGISTRY, type Language, type MessageKey } from "@/locales"
+import { getFormattingLocale, getLanguage, subscribeLanguage } from "@/services/language"
+
+import { useTenant } from "./use-tenant"
+
+export interface Translation {
+  language: Language
+  /** BCP 47 locale for `Intl` formatting; see `getFormattingLocale`. */
+  locale: string
+  dir: "ltr" | "rtl"
+  t: (key: MessageKey, params?: MessageParams) => string
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  formatDate: (value: Date, options?: Intl.DateTimeFormatOptions) => string
+}
+
+/** Messages and formatters for the operator's chosen language. */
+export function useTranslation(): Translation {
+  const language = React.useSyncExternalStore(subscribeLanguage, getLanguage)
+  // Subscribed only so a tenant switch re-renders; the formatting locale
+  // depends on the tenant's region.
+  useTenant()
+  const locale = getFormattingLocale()
+
+  return React.useMemo(() => {
+    const { messages, dir } = LANGUAGE_REGISTRY[language]
+    return {
+      language,
+      locale,
+      dir,
+      t: (key, params) => formatMessage(messages[key], locale, params),
+      formatNumber: (value, options) => new Intl.NumberFormat(locale, options).format(value),
+      formatDate: (value, options) => new Intl.DateTimeFormat(locale, options).format(value),
+    }
+  }, [language, locale])
+}
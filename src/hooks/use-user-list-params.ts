@@ -0,0 +1,73 @@
+import * as React from "react"
+import { useSearchParams } from "react-router-dom"
+
+import type { UserQueryParams, UserSort } from "@/types"
+
+export const USER_SORT_VALUES: UserSort[] = ["userId,asc", "userId,desc"]
+export const USER_PAGE_SIZES = [10, 20, 50, 100]
+
+const DEFAULT_PARAMS: Required<UserQueryParams> = {
+  page: 0,
+  size: 20,
+  search: "",
+  sort: "userId,asc",
+}
+
+const parseParams = (searchParams: URLSearchParams): Required<UserQueryParams> => {
+  // The URL carries a 1-based page so links read naturally (?page=3 is the third page).
+  const page = Number(searchParams.get("page"))
+  const size = Number(searchParams.get("size"))
+  const sort = searchParams.get("sort") as UserSort | null
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page - 1 : DEFAULT_PARAMS.page,
+    size: USER_PAGE_SIZES.includes(size) ? size : DEFAULT_PARAMS.size,
+    search: searchParams.get("q")?.trim() ?? DEFAULT_PARAMS.search,
+    sort: sort && USER_SORT_VALUES.includes(sort) ? sort : DEFAULT_PARAMS.sort,
+  }
+}
+
+const writeParams = (searchParams: URLSearchParams, params: Required<UserQueryParams>) => {
+  const next = new URLSearchParams(searchParams)
+  const entries: [string, string, boolean][] = [
+    ["page", String(params.page + 1), params.page === DEFAULT_PARAMS.page],
+    ["size", String(params.size), params.size === DEFAULT_PARAMS.size],
+    ["q", params.search, params.search === DEFAULT_PARAMS.search],
+    ["sort", params.sort, params.sort === DEFAULT_PARAMS.sort],
+  ]
+  for (const [name, value, isDefault] of entries) {
+    if (isDefault) {
+      next.delete(name)
+    } else {
+      next.set(name, value)
+    }
+  }
+  return next
+}
+
+/**
+ * User list pagination and filters, stored in the query string so they survive
+ * a refresh and work with browser back/forward. Changing anything other than the
+ * page sends the list back to the first page.
+ */
+export function useUserListParams() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const params = React.useMemo(() => parseParams(searchParams), [searchParams])
+
+  const setParams = React.useCallback(
+    (patch: Partial<UserQueryParams>, options: { replace?: boolean } = {}) => {
+      setSearchParams((previous) => {
+        const current = parseParams(previous)
+        const resetsPage = Object.keys(patch).some((key) => key !== "page")
+        return writeParams(previous, {
+          ...current,
+          ...patch,
+          page: patch.page ?? (resetsPage ? 0 : current.page),
+        })
+      }, options)
+    },
+    [setSearchParams]
+  )
+
+  return [params, setParams] as const
+}
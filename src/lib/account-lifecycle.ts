@@ -0,0 +1,72 @@
+import type { MessageKey } from "@/locales"
+import type { AccountStatus, ApprovalKind } from "@/types"
+
+export type LifecycleAction = "freeze" | "unfreeze" | "close" | "reopen"
+
+export interface ReasonCode {
+  value: string
+  labelKey: MessageKey
+}
+
+export interface LifecycleActionConfig {
+  labelKey: MessageKey
+  descriptionKey: MessageKey
+  targetStatus: AccountStatus
+  destructive: boolean
+  /** When set, the action is submitted for a second operator's approval instead of applied. */
+  approvalKind: ApprovalKind | null
+  reasonCodes: ReasonCode[]
+}
+
+export const LIFECYCLE_ACTIONS: Record<LifecycleAction, LifecycleActionConfig> = {
+  freeze: {
+    labelKey: "lifecycle.freeze",
+    descriptionKey: "lifecycleDescription.freeze",
+    targetStatus: "FROZEN",
+    destructive: true,
+    // Protective, so it applies at once; undoing it needs approval.
+    approvalKind: null,
+    reasonCodes: [
+      { value: "SUSPECTED_FRAUD", labelKey: "lifecycleReason.SUSPECTED_FRAUD" },
+      { value: "CUSTOMER_REQUEST", labelKey: "lifecycleReason.CUSTOMER_REQUEST" },
+      { value: "LEGAL_HOLD", labelKey: "lifecycleReason.LEGAL_HOLD" },
+      { value: "COMPLIANCE_REVIEW", labelKey: "lifecycleReason.COMPLIANCE_REVIEW" },
+    ],
+  },
+  unfreeze: {
+    labelKey: "lifecycle.unfreeze",
+    descriptionKey: "lifecycleDescription.unfreeze",
+    targetStatus: "ACTIVE",
+    destructive: false,
+    approvalKind: "STATUS_OVERRIDE",
+    reasonCodes: [
+      { value: "INVESTIGATION_CLEARED", labelKey: "lifecycleReason.INVESTIGATION_CLEARED" },
+      { value: "CUSTOMER_REQUEST", labelKey: "lifecycleReason.CUSTOMER_REQUEST" },
+      { value: "HOLD_RELEASED", labelKey: "lifecycleReason.HOLD_RELEASED" },
+    ],
+  },
+  close: {
+    labelKey: "lifecycle.close",
+    descriptionKey: "lifecycleDescription.close",
+    targetStatus: "CLOSED",
+    destructive: true,
+    approvalKind: "ACCOUNT_CLOSURE",
+    reasonCodes: [
+      { value: "CUSTOMER_REQUEST", labelKey: "lifecycleReason.CUSTOMER_REQUEST" },
+      { value: "DORMANT", labelKey: "lifecycleReason.DORMANT" },
+      { value: "FRAUD_CONFIRMED", labelKey: "lifecycleReason.FRAUD_CONFIRMED" },
+      { value: "BANK_DECISION", labelKey: "lifecycleReason.BANK_DECISION" },
+    ],
+  },
+  reopen: {
+    labelKey: "lifecycle.reopen",
+    descriptionKey: "lifecycleDescription.reopen",
+    targetStatus: "ACTIVE",
+    destructive: false,
+    approvalKind: "STATUS_OVERRIDE",
+    reasonCodes: [
+      { value: "CLOSED_IN_ERROR", labelKey: "lifecycleReason.CLOSED_IN_ERROR" },
+      { value: "CUSTOMER_REQUEST", labelKey: "lifecycleReason.CUSTOMER_REQUEST" },
+    ],
+  },
+}
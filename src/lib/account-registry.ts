@@ -0,0 +1,208 @@
+import type { MessageKey } from "@/locales"
+import type { AccountStatus, AccountType, BankAccount } from "@/types"
+import type { LifecycleAction } from "./account-lifecycle"
+
+export type BalanceKind = "asset" | "liability"
+
+/** OFX `ACCTTYPE`, or `CREDITCARD` for accounts exported as a credit card statement. */
+export type OfxAccountType = "CHECKING" | "SAVINGS" | "MONEYMRKT" | "CREDITLINE" | "CREDITCARD"
+
+/**
+ * What an account of a given type can take part in:
+ * - `open`: can be opened from the open-account wizard
+ * - `transfer`: can send and receive transfers
+ * - `deposit`: can receive funds (initial deposits, closure sweeps)
+ * - `fund`: can fund another account's initial deposit
+ */
+export type AccountTypeAction = "open" | "transfer" | "deposit" | "fund"
+
+/**
+ * What an account in a given status allows. `view` covers the detail page and
+ * transaction history; `transact` covers moving money in or out.
+ */
+export type AccountStatusAction = LifecycleAction | "view" | "transact"
+
+/** Display text lives in the message catalogs; the registries only name the keys. */
+export interface AccountTypeInfo {
+  labelKey: MessageKey
+  descriptionKey: MessageKey
+  /** Stroke path for a 24×24 outline icon. */
+  iconPath: string
+  iconClassName: string
+  badgeClassName: string
+  chartColor: string
+  /** `null` keeps the balance out of asset and liability totals. */
+  balanceKind: BalanceKind | null
+  ofxAccountType: OfxAccountType
+  allowedActions: AccountTypeAction[]
+}
+
+export interface AccountStatusInfo {
+  labelKey: MessageKey
+  descriptionKey: MessageKey
+  badgeClassName: string
+  allowedActions: AccountStatusAction[]
+}
+
+export const ACCOUNT_TYPE_REGISTRY: Record<AccountType, AccountTypeInfo> = {
+  CHECKING: {
+    labelKey: "accountType.CHECKING",
+    descriptionKey: "accountTypeDescription.CHECKING",
+    iconPath:
+      "M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z",
+    iconClassName: "text-green-600 dark:text-green-400",
+    badgeClassName: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+    chartColor: "#16a34a",
+    balanceKind: "asset",
+    ofxAccountType: "CHECKING",
+    allowedActions: ["open", "transfer", "deposit", "fund"],
+  },
+  SAVINGS: {
+    labelKey: "accountType.SAVINGS",
+    descriptionKey: "accountTypeDescription.SAVINGS",
+    iconPath:
+      "M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z",
+    iconClassName: "text-blue-600 dark:text-blue-400",
+    badgeClassName: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+    chartColor: "#2563eb",
+    balanceKind: "asset",
+    ofxAccountType: "SAVINGS",
+    allowedActions: ["open", "transfer", "deposit", "fund"],
+  },
+  CREDIT: {
+    labelKey: "accountType.CREDIT",
+    descriptionKey: "accountTypeDescription.CREDIT",
+    iconPath:
+      "M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z",
+    iconClassName: "text-purple-600 dark:text-purple-400",
+    badgeClassName: "bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300",
+    chartColor: "#9333ea",
+    balanceKind: "liability",
+    ofxAccountType: "CREDITCARD",
+    allowedActions: ["open", "transfer"],
+  },
+  LOAN: {
+    labelKey: "accountType.LOAN",
+    descriptionKey: "accountTypeDescription.LOAN",
+    iconPath:
+      "M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z",
+    iconClassName: "text-amber-600 dark:text-amber-400",
+    badgeClassName: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+    chartColor: "#d97706",
+    balanceKind: "liability",
+    ofxAccountType: "CREDITLINE",
+    allowedActions: [],
+  },
+  MORTGAGE: {
+    labelKey: "accountType.MORTGAGE",
+    descriptionKey: "accountTypeDescription.MORTGAGE",
+    iconPath:
+      "M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6",
+    iconClassName: "text-rose-600 dark:text-rose-400",
+    badgeClassName: "bg-rose-100 text-rose-800 dark:bg-rose-900/40 dark:text-rose-300",
+    chartColor: "#e11d48",
+    balanceKind: "liability",
+    ofxAccountType: "CREDITLINE",
+    allowedActions: [],
+  },
+  BROKERAGE: {
+    labelKey: "accountType.BROKERAGE",
+    descriptionKey: "accountTypeDescription.BROKERAGE",
+    iconPath: "M13 7h8m0 0v8m0-8l-8 8-4-4-6 6",
+    iconClassName: "text-teal-600 dark:text-teal-400",
+    badgeClassName: "bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-300",
+    chartColor: "#0d9488",
+    balanceKind: "asset",
+    ofxAccountType: "MONEYMRKT",
+    allowedActions: [],
+  },
+  UNKNOWN: {
+    labelKey: "accountType.UNKNOWN",
+    descriptionKey: "accountTypeDescription.UNKNOWN",
+    iconPath:
+      "M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4",
+    iconClassName: "text-muted-foreground",
+    badgeClassName: "bg-secondary text-secondary-foreground",
+    chartColor: "#6b7280",
+    balanceKind: null,
+    ofxAccountType: "CHECKING",
+    allowedActions: [],
+  },
+}
+
+export const ACCOUNT_STATUS_REGISTRY: Record<AccountStatus, AccountStatusInfo> = {
+  ACTIVE: {
+    labelKey: "accountStatus.ACTIVE",
+    descriptionKey: "accountStatusDescription.ACTIVE",
+    badgeClassName: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+    allowedActions: ["view", "transact", "freeze", "close"],
+  },
+  FROZEN: {
+    labelKey: "accountStatus.FROZEN",
+    descriptionKey: "accountStatusDescription.FROZEN",
+    badgeClassName: "bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-300",
+    allowedActions: ["view", "unfreeze", "close"],
+  },
+  CLOSED: {
+    labelKey: "accountStatus.CLOSED",
+    descriptionKey: "accountStatusDescription.CLOSED",
+    badgeClassName: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+    allowedActions: ["view", "reopen"],
+  },
+  PENDING: {
+    labelKey: "accountStatus.PENDING",
+    descriptionKey: "accountStatusDescription.PENDING",
+    badgeClassName: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300",
+    allowedActions: [],
+  },
+  UNKNOWN: {
+    labelKey: "accountStatus.UNKNOWN",
+    descriptionKey: "accountStatusDescription.UNKNOWN",
+    badgeClassName: "bg-secondary text-secondary-foreground",
+    allowedActions: ["view"],
+  },
+}
+
+const LIFECYCLE_ACTION_ORDER: LifecycleAction[] = ["freeze", "unfreeze", "close", "reopen"]
+
+/** Looks up a type, falling back to the UNKNOWN entry for unexpected values. */
+export function getAccountTypeInfo(accountType: string): AccountTypeInfo {
+  return (
+    ACCOUNT_TYPE_REGISTRY[accountType.toUpperCase() as AccountType] ?? ACCOUNT_TYPE_REGISTRY.UNKNOWN
+  )
+}
+
+/** Looks up a status, falling back to the UNKNOWN entry for unexpected values. */
+export function getAccountStatusInfo(status: string): AccountStatusInfo {
+  return (
+    ACCOUNT_STATUS_REGISTRY[status.toUpperCase() as AccountStatus] ?? ACCOUNT_STATUS_REGISTRY.UNKNOWN
+  )
+}
+
+export function getOpenableAccountTypes(): AccountType[] {
+  return (Object.keys(ACCOUNT_TYPE_REGISTRY) as AccountType[]).filter((accountType) =>
+    ACCOUNT_TYPE_REGISTRY[accountType].allowedActions.includes("open")
+  )
+}
+
+export function getLifecycleActions(status: string): LifecycleAction[] {
+  const { allowedActions } = getAccountStatusInfo(status)
+  return LIFECYCLE_ACTION_ORDER.filter((action) => allowedActions.includes(action))
+}
+
+export function typeAllows(accountType: string, action: AccountTypeAction): boolean {
+  return getAccountTypeInfo(accountType).allowedActions.includes(action)
+}
+
+/** Whether the account's current status allows `action`. */
+export function statusAllows(account: BankAccount, action: AccountStatusAction): boolean {
+  return getAccountStatusInfo(account.status).allowedActions.includes(action)
+}
+
+/**
+ * Whether the account can move money for `action` right now: its type must
+ * support it and its status must allow transactions.
+ */
+export function canTransact(account: BankAccount, action: AccountTypeAction): boolean {
+  return typeAllows(account.accountType, action) && statusAllows(account, "transact")
+}
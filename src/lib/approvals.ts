@@ -0,0 +1,40 @@
+import type { ApprovalKind, ApprovalStatus } from "@/types"
+
+import { compareMoney, parseMoney, type Money } from "./money"
+
+export interface ApprovalKindInfo {
+  label: string
+}
+
+export interface ApprovalStatusInfo {
+  label: string
+  badgeClassName: string
+}
+
+export const APPROVAL_KIND_REGISTRY: Record<ApprovalKind, ApprovalKindInfo> = {
+  TRANSFER: { label: "Transfer" },
+  ACCOUNT_CLOSURE: { label: "Account closure" },
+  STATUS_OVERRIDE: { label: "Status override" },
+  UNKNOWN: { label: "Other request" },
+}
+
+export const APPROVAL_STATUS_REGISTRY: Record<ApprovalStatus, ApprovalStatusInfo> = {
+  PENDING: { label: "Pending", badgeClassName: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300" },
+  APPROVED: { label: "Approved", badgeClassName: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300" },
+  REJECTED: { label: "Rejected", badgeClassName: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300" },
+  UNKNOWN: { label: "Unknown", badgeClassName: "bg-secondary text-secondary-foreground" },
+}
+
+/**
+ * Whether a transfer goes to a checker. `thresholds` come from the tenant's
+ * `transferApprovalThresholds`; transfers strictly above the amount for their
+ * currency need approval, and a currency without an entry always does, so a
+ * new currency is never waved through by omission.
+ */
+export function transferRequiresApproval(amount: Money, thresholds: Record<string, string>): boolean {
+  const threshold = thresholds[amount.currency]
+  if (threshold === undefined) {
+    return true
+  }
+  return compareMoney(amount, parseMoney(threshold, amount.currency)) > 0
+}
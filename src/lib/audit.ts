@@ -0,0 +1,68 @@
+import type { MessageKey } from "@/locales"
+import type { AuditEvent, AuditEventType } from "@/types"
+
+import { toCsv } from "./csv"
+
+export interface AuditEventTypeInfo {
+  labelKey: MessageKey
+  badgeClassName: string
+}
+
+export const AUDIT_EVENT_REGISTRY: Record<AuditEventType, AuditEventTypeInfo> = {
+  ACCOUNT_OPENED: { labelKey: "auditEvent.ACCOUNT_OPENED", badgeClassName: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300" },
+  STATUS_CHANGE: { labelKey: "auditEvent.STATUS_CHANGE", badgeClassName: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300" },
+  TRANSFER: { labelKey: "auditEvent.TRANSFER", badgeClassName: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300" },
+  RENAME: { labelKey: "auditEvent.RENAME", badgeClassName: "bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300" },
+  LOGIN: { labelKey: "auditEvent.LOGIN", badgeClassName: "bg-secondary text-secondary-foreground" },
+  APPROVAL: { labelKey: "auditEvent.APPROVAL", badgeClassName: "bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300" },
+  UNKNOWN: { labelKey: "auditEvent.UNKNOWN", badgeClassName: "bg-secondary text-secondary-foreground" },
+}
+
+export function getAuditEventTypeInfo(type: AuditEventType): AuditEventTypeInfo {
+  return AUDIT_EVENT_REGISTRY[type] ?? AUDIT_EVENT_REGISTRY.UNKNOWN
+}
+
+const AUDIT_CSV_HEADER: MessageKey[] = [
+  "auditCsv.timestamp",
+  "auditCsv.event",
+  "auditCsv.actor",
+  "auditCsv.actorUsername",
+  "auditCsv.userId",
+  "auditCsv.accountId",
+  "auditCsv.description",
+  "auditCsv.field",
+  "auditCsv.before",
+  "auditCsv.after",
+  "auditCsv.requestId",
+]
+
+/**
+ * One row per changed field (or one row for an event without changes), so
+ * before/after values stay in their own columns for filtering in a spreadsheet.
+ * Headings and event names are in the operator's language (`t`); timestamps
+ * stay ISO 8601 so spreadsheets sort them correctly.
+ */
+export function auditEventsToCsv(events: AuditEvent[], t: (key: MessageKey) => string): string {
+  const rows = events.flatMap((event) => {
+    const base = [
+      event.timestamp,
+      t(getAuditEventTypeInfo(event.eventType).labelKey),
+      event.actor.displayName,
+      event.actor.username,
+      event.userId,
+      event.accountId,
+      event.description,
+    ]
+    if (event.changes.length === 0) {
+      return [[...base, null, null, null, event.requestId]]
+    }
+    return event.changes.map((change) => [
+      ...base,
+      change.label,
+      change.before,
+      change.after,
+      event.requestId,
+    ])
+  })
+  return toCsv(AUDIT_CSV_HEADER.map((key) => t(key)), rows)
+}
@@ -0,0 +1,8 @@
+import type { CSSProperties } from "react"
+
+/** Recharts draws its tooltip with a fixed white box; this follows the theme tokens instead. */
+export const CHART_TOOLTIP_CONTENT_STYLE: CSSProperties = {
+  backgroundColor: "hsl(var(--popover))",
+  borderColor: "hsl(var(--border))",
+  color: "hsl(var(--popover-foreground))",
+}
@@ -0,0 +1,36 @@
+/** Converts `#rrggbb` to the `h s% l%` triplet the CSS color tokens in `index.css` use. */
+export function hexToHslTriplet(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16) / 255)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const lightness = (max + min) / 2
+  const delta = max - min
+
+  let hue = 0
+  let saturation = 0
+  if (delta !== 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1))
+    if (max === r) {
+      hue = ((g - b) / delta) % 6
+    } else if (max === g) {
+      hue = (b - r) / delta + 2
+    } else {
+      hue = (r - g) / delta + 4
+    }
+    hue = (hue * 60 + 360) % 360
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10
+  return `${round(hue)} ${round(saturation * 100)}% ${round(lightness * 100)}%`
+}
+
+/** Whether dark text reads better than white on `hex`, by WCAG relative luminance. */
+export function prefersDarkText(hex: string): boolean {
+  const [r, g, b] = [1, 3, 5].map((start) => {
+    const channel = parseInt(hex.slice(start, start + 2), 16) / 255
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
+  })
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b
+  // Contrast against white equals contrast against black at about 0.179.
+  return luminance > 0.179
+}
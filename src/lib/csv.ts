@@ -0,0 +1,44 @@
+export type CsvCell = string | number | null | undefined
+
+// Spreadsheet apps run cells starting with these as formulas; a leading
+// apostrophe makes them plain text (CSV injection). Plain decimals such as
+// `-12.50` are left alone so amount columns stay numeric.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+const DECIMAL = /^-?\d+(\.\d+)?$/
+
+function escapeCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) {
+    return ""
+  }
+  let text = String(cell)
+  if (typeof cell === "string" && FORMULA_PREFIX.test(text) && !DECIMAL.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** RFC 4180 CSV with CRLF line endings. */
+export function toCsv(header: string[], rows: CsvCell[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCell).join(",")).join("\r\n")
+}
+
+/** Saves `content` through the browser's download prompt. */
+const REVOKE_DELAY_MS = 10_000
+
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Some browsers start the download after `click()` returns, so revoking at
+  // once can cancel it.
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  // The byte-order mark makes Excel read the file as UTF-8.
+  downloadFile(filename, `\uFEFF${csv}`, "text/csv;charset=utf-8")
+}
@@ -0,0 +1,44 @@
+/**
+ * A message with a form per CLDR plural category, chosen by the `count`
+ * parameter. Only `other` is required; English needs `one` as well, Arabic
+ * uses all six.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+
+export type Message = string | PluralMessage
+
+export type MessageParams = Record<string, string | number>
+
+const pluralRulesCache = new Map<string, Intl.PluralRules>()
+
+function getPluralRules(locale: string): Intl.PluralRules {
+  let rules = pluralRulesCache.get(locale)
+  if (!rules) {
+    rules = new Intl.PluralRules(locale)
+    pluralRulesCache.set(locale, rules)
+  }
+  return rules
+}
+
+/**
+ * Picks the plural form (if any) and fills `{name}` placeholders. Numbers are
+ * formatted for `locale`, so `{count}` reads "1,200" in English and "1 200"
+ * in French. Unknown placeholders are left as they are.
+ */
+export function formatMessage(message: Message, locale: string, params: MessageParams = {}): string {
+  let template: string
+  if (typeof message === "string") {
+    template = message
+  } else {
+    const count = typeof params.count === "number" ? params.count : 0
+    template = message[getPluralRules(locale).select(count)] ?? message.other
+  }
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name]
+    if (value === undefined) {
+      return placeholder
+    }
+    return typeof value === "number" ? new Intl.NumberFormat(locale).format(value) : value
+  })
+}
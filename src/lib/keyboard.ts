@@ -0,0 +1,16 @@
+/** How the platform labels the Ctrl/Cmd modifier used by app-wide shortcuts. */
+export const MOD_KEY_LABEL =
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.userAgent) ? "⌘" : "Ctrl"
+
+/** Whether the operator is typing into a field, where single-key shortcuts must not fire. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  )
+}
+
+/** A key press with Ctrl, Cmd or Alt held, which belongs to the browser or another shortcut. */
+export function hasCommandModifier(event: { ctrlKey: boolean; metaKey: boolean; altKey: boolean }): boolean {
+  return event.ctrlKey || event.metaKey || event.altKey
+}
@@ -0,0 +1,216 @@
+/**
+ * An exact monetary amount. Amounts are held as an integer count of the
+ * currency's minor units (cents, pence; whole yen) so arithmetic never goes
+ * through binary fractions.
+ */
+export interface Money {
+  minor: number
+  currency: string
+}
+
+/**
+ * Exchange rates into `base`: `rates[code]` is how many units of `base` one
+ * unit of `code` buys.
+ */
+export interface FxRates {
+  base: string
+  rates: Record<string, number>
+}
+
+export interface FormatMoneyOptions {
+  locale?: string
+  notation?: "standard" | "compact"
+  signDisplay?: "auto" | "always" | "exceptZero" | "never"
+}
+
+export const DEFAULT_CURRENCY = "USD"
+
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MoneyError"
+  }
+}
+
+const DECIMAL_PATTERN = /^([+-])?(\d+)(?:\.(\d+))?$/
+
+const minorDigitsCache = new Map<string, number>()
+
+/** Number of minor-unit digits for a currency, e.g. 2 for USD and 0 for JPY. */
+export function getMinorDigits(currency: string): number {
+  let digits = minorDigitsCache.get(currency)
+  if (digits === undefined) {
+    try {
+      digits =
+        new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions()
+          .maximumFractionDigits ?? 2
+    } catch {
+      throw new MoneyError(`Unknown currency "${currency}"`)
+    }
+    minorDigitsCache.set(currency, digits)
+  }
+  return digits
+}
+
+function assertSafe(minor: number): number {
+  if (!Number.isSafeInteger(minor)) {
+    throw new MoneyError("Amount is too large to represent exactly")
+  }
+  return minor
+}
+
+function assertSameCurrency(a: Money, b: Money) {
+  if (a.currency !== b.currency) {
+    throw new MoneyError(`Cannot combine ${a.currency} and ${b.currency} amounts`)
+  }
+}
+
+export function money(minor: number, currency: string): Money {
+  getMinorDigits(currency)
+  return { minor: assertSafe(minor), currency }
+}
+
+export function zeroMoney(currency: string): Money {
+  return money(0, currency)
+}
+
+/**
+ * Parses a decimal string (or a JSON number, via its shortest string form)
+ * into minor units. More fraction digits than the currency allows is an
+ * error rather than a silent rounding.
+ */
+export function parseMoney(value: string | number, currency: string): Money {
+  const text = typeof value === "number" ? String(value) : value.trim()
+  const match = DECIMAL_PATTERN.exec(text)
+  if (!match) {
+    throw new MoneyError(`"${text}" is not a decimal amount`)
+  }
+
+  const [, sign, whole, fraction = ""] = match
+  const digits = getMinorDigits(currency)
+  const significantFraction = fraction.replace(/0+$/, "")
+  if (significantFraction.length > digits) {
+    throw new MoneyError(
+      digits === 0
+        ? `${currency} amounts cannot have a fractional part`
+        : `${currency} amounts allow at most ${digits} decimal places`
+    )
+  }
+
+  const minor = Number(whole + significantFraction.padEnd(digits, "0"))
+  return money(sign === "-" && minor !== 0 ? -minor : minor, currency)
+}
+
+/** Like `parseMoney`, but returns `null` for input that does not parse. */
+export function tryParseMoney(value: string | number, currency: string): Money | null {
+  try {
+    return parseMoney(value, currency)
+  } catch (error) {
+    if (error instanceof MoneyError) {
+      return null
+    }
+    throw error
+  }
+}
+
+/** Why `value` is not a valid `currency` amount, or `null` if it is. */
+export function getMoneyInputError(value: string | number, currency: string): string | null {
+  try {
+    parseMoney(value, currency)
+    return null
+  } catch (error) {
+    if (error instanceof MoneyError) {
+      return error.message
+    }
+    throw error
+  }
+}
+
+/** Canonical decimal form, e.g. `-12.50` or `1200` for JPY. */
+export function toDecimalString(amount: Money): string {
+  const digits = getMinorDigits(amount.currency)
+  const absolute = String(Math.abs(amount.minor)).padStart(digits + 1, "0")
+  const sign = amount.minor < 0 ? "-" : ""
+  if (digits === 0) {
+    return sign + absolute
+  }
+  return `${sign}${absolute.slice(0, -digits)}.${absolute.slice(-digits)}`
+}
+
+/** Approximate value in major units, for charts and other non-exact uses. */
+export function toMajor(amount: Money): number {
+  return amount.minor / 10 ** getMinorDigits(amount.currency)
+}
+
+/** Rounds a major-unit number to the nearest minor unit. */
+export function fromMajor(value: number, currency: string): Money {
+  return money(Math.round(value * 10 ** getMinorDigits(currency)), currency)
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b)
+  return money(a.minor + b.minor, a.currency)
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b)
+  return money(a.minor - b.minor, a.currency)
+}
+
+export function sumMoney(amounts: Money[], currency: string): Money {
+  return amounts.reduce(addMoney, zeroMoney(currency))
+}
+
+export function negateMoney(amount: Money): Money {
+  return money(-amount.minor, amount.currency)
+}
+
+export function absMoney(amount: Money): Money {
+  return money(Math.abs(amount.minor), amount.currency)
+}
+
+/** Negative, zero or positive as `a` is less than, equal to or greater than `b`. */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b)
+  return Math.sign(a.minor - b.minor)
+}
+
+export function isNegative(amount: Money): boolean {
+  return amount.minor < 0
+}
+
+export function isPositive(amount: Money): boolean {
+  return amount.minor > 0
+}
+
+/**
+ * Converts into `fxRates.base`, rounding to the nearest minor unit. Returns
+ * `null` when the table has no rate for the amount's currency.
+ */
+export function convertMoney(amount: Money, fxRates: FxRates): Money | null {
+  if (amount.currency === fxRates.base) {
+    return amount
+  }
+  const rate = fxRates.rates[amount.currency]
+  if (rate === undefined || !Number.isFinite(rate) || rate <= 0) {
+    return null
+  }
+  return fromMajor(toMajor(amount) * rate, fxRates.base)
+}
+
+let defaultLocale: string | undefined
+
+/** Sets the locale `formatMoney` uses when none is passed; `undefined` means the browser's. */
+export function setDefaultLocale(locale: string | undefined) {
+  defaultLocale = locale
+}
+
+/** Formats for display, in `locale` or else the default set by `setDefaultLocale`. */
+export function formatMoney(amount: Money, options: FormatMoneyOptions = {}): string {
+  const { locale = defaultLocale, ...formatOptions } = options
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: amount.currency,
+    ...formatOptions,
+  }).format(toMajor(amount))
+}
@@ -0,0 +1,85 @@
+import type { OperatorRole } from "@/types"
+import type { LifecycleAction } from "./account-lifecycle"
+
+/**
+ * Something an operator may see or do. Hiding a control is only a courtesy:
+ * the API enforces the same rules and rejects anything out of role.
+ */
+export type Permission =
+  | "users.view"
+  | "accounts.open"
+  | "accounts.viewFullId"
+  | "accounts.viewBalance"
+  | "transactions.view"
+  | "transfers.create"
+  | "statements.export"
+  | "approvals.view"
+  | "approvals.review"
+  | "audit.view"
+  | `accounts.${LifecycleAction}`
+
+export interface RoleInfo {
+  label: string
+  description: string
+  permissions: Permission[]
+}
+
+const VIEWER_PERMISSIONS: Permission[] = ["users.view"]
+
+const TELLER_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  "accounts.open",
+  "accounts.viewFullId",
+  "accounts.viewBalance",
+  "transactions.view",
+  "transfers.create",
+  "statements.export",
+  "approvals.view",
+]
+
+const SUPERVISOR_PERMISSIONS: Permission[] = [
+  ...TELLER_PERMISSIONS,
+  "accounts.freeze",
+  "accounts.unfreeze",
+  "accounts.close",
+  "approvals.review",
+  "audit.view",
+]
+
+export const ROLE_REGISTRY: Record<OperatorRole, RoleInfo> = {
+  VIEWER: {
+    label: "Viewer",
+    description: "Read-only access to customers and accounts; balances and account numbers are masked",
+    permissions: VIEWER_PERMISSIONS,
+  },
+  TELLER: {
+    label: "Teller",
+    description: "Opens accounts and moves money between a customer's accounts",
+    permissions: TELLER_PERMISSIONS,
+  },
+  SUPERVISOR: {
+    label: "Supervisor",
+    description: "Teller access plus freezing and closing accounts; reviews other operators' requests",
+    permissions: SUPERVISOR_PERMISSIONS,
+  },
+  ADMIN: {
+    label: "Administrator",
+    description: "Full access, including reopening closed accounts",
+    permissions: [...SUPERVISOR_PERMISSIONS, "accounts.reopen"],
+  },
+}
+
+export function getRoleInfo(role: OperatorRole): RoleInfo {
+  return ROLE_REGISTRY[role] ?? ROLE_REGISTRY.VIEWER
+}
+
+export function roleHasPermission(role: OperatorRole, permission: Permission): boolean {
+  return getRoleInfo(role).permissions.includes(permission)
+}
+
+export const MASK = "••••"
+
+/** Keeps only the last four characters, e.g. `••••1234`. */
+export function maskAccountId(accountId: string): string {
+  return accountId.length <= 4 ? MASK : `${MASK}${accountId.slice(-4)}`
+}
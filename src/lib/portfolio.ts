@@ -0,0 +1,129 @@
+import type { AccountType, BankAccount } from "@/types"
+import { getAccountTypeInfo } from "./account-registry"
+import {
+  DEFAULT_CURRENCY,
+  type FxRates,
+  type Money,
+  absMoney,
+  addMoney,
+  compareMoney,
+  convertMoney,
+  isNegative,
+  negateMoney,
+  subtractMoney,
+  zeroMoney,
+} from "./money"
+
+export interface PortfolioTypeBreakdown {
+  accountType: AccountType
+  total: Money
+  count: number
+}
+
+/** Totals for every included account held in (or converted to) one currency. */
+export interface PortfolioCurrencyTotals {
+  currency: string
+  totalAssets: Money
+  totalLiabilities: Money
+  netPosition: Money
+  breakdown: PortfolioTypeBreakdown[]
+  accountCount: number
+}
+
+export interface PortfolioSummary {
+  /** One entry per currency, largest account count first. */
+  totals: PortfolioCurrencyTotals[]
+  /** Number of balances converted into `fxRates.base`. */
+  convertedCount: number
+  includedCount: number
+  inactiveCount: number
+  closedCount: number
+}
+
+function createTotals(currency: string): PortfolioCurrencyTotals {
+  return {
+    currency,
+    totalAssets: zeroMoney(currency),
+    totalLiabilities: zeroMoney(currency),
+    netPosition: zeroMoney(currency),
+    breakdown: [],
+    accountCount: 0,
+  }
+}
+
+/**
+ * Totals a customer's accounts. CLOSED accounts are left out entirely; other
+ * non-ACTIVE accounts (e.g. FROZEN) still hold the customer's money, so they
+ * count but are reported separately. Liability balances (credit, loans) are
+ * treated as amounts owed whichever sign the backend uses, and an overdrawn
+ * asset account moves its shortfall into liabilities.
+ *
+ * Balances are never added across currencies. Without `fxRates` each currency
+ * gets its own totals; with them, balances are converted into the table's
+ * base currency, and any currency the table has no rate for stays separate.
+ */
+export function summarizePortfolio(accounts: BankAccount[], fxRates?: FxRates): PortfolioSummary {
+  let inactiveCount = 0
+  let closedCount = 0
+  let convertedCount = 0
+  const byCurrency = new Map<string, PortfolioCurrencyTotals>()
+
+  for (const account of accounts) {
+    if (account.status === "CLOSED") {
+      closedCount++
+      continue
+    }
+    if (account.status !== "ACTIVE") {
+      inactiveCount++
+    }
+
+    let balance = account.balance
+    const converted = fxRates ? convertMoney(balance, fxRates) : null
+    if (converted && converted.currency !== balance.currency) {
+      balance = converted
+      convertedCount++
+    }
+
+    const totals = byCurrency.get(balance.currency) ?? createTotals(balance.currency)
+    byCurrency.set(balance.currency, totals)
+    totals.accountCount++
+
+    const { accountType } = account
+    const { balanceKind } = getAccountTypeInfo(accountType)
+    if (balanceKind === "asset") {
+      if (!isNegative(balance)) {
+        totals.totalAssets = addMoney(totals.totalAssets, balance)
+      } else {
+        totals.totalLiabilities = addMoney(totals.totalLiabilities, negateMoney(balance))
+      }
+    } else if (balanceKind === "liability") {
+      totals.totalLiabilities = addMoney(totals.totalLiabilities, absMoney(balance))
+    }
+
+    let entry = totals.breakdown.find((candidate) => candidate.accountType === accountType)
+    if (!entry) {
+      entry = { accountType, total: zeroMoney(balance.currency), count: 0 }
+      totals.breakdown.push(entry)
+    }
+    entry.total = addMoney(entry.total, absMoney(balance))
+    entry.count++
+  }
+
+  const totals = Array.from(byCurrency.values())
+  if (totals.length === 0) {
+    totals.push(createTotals(accounts[0]?.balance.currency ?? DEFAULT_CURRENCY))
+  }
+  for (const entry of totals) {
+    entry.netPosition = subtractMoney(entry.totalAssets, entry.totalLiabilities)
+    entry.breakdown.sort((a, b) => compareMoney(b.total, a.total))
+  }
+  totals.sort((a, b) => b.accountCount - a.accountCount)
+
+  return {
+    totals,
+    convertedCount,
+    includedCount: accounts.length - closedCount,
+    inactiveCount,
+    closedCount,
+  }
+}
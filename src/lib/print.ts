@@ -0,0 +1,25 @@
+/**
+ * Opens the browser's print dialog for a standalone HTML document, from
+ * which the operator can print or save a PDF. A hidden iframe is used
+ * instead of a new window, which popup blockers would stop after an await.
+ */
+export function printHtml(html: string) {
+  const frame = document.createElement("iframe")
+  frame.setAttribute("aria-hidden", "true")
+  frame.style.position = "fixed"
+  frame.style.width = "0"
+  frame.style.height = "0"
+  frame.style.border = "0"
+  frame.srcdoc = html
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow
+    if (!frameWindow) {
+      frame.remove()
+      return
+    }
+    frameWindow.addEventListener("afterprint", () => frame.remove())
+    frameWindow.focus()
+    frameWindow.print()
+  }
+  document.body.appendChild(frame)
+}
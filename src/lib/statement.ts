@@ -0,0 +1,320 @@
+import { format, parseISO } from "date-fns"
+
+import { en } from "@/locales/en"
+import type { BankAccount, TenantConfig, Transaction, TransactionType } from "@/types"
+
+import { getAccountTypeInfo } from "./account-registry"
+import { toCsv } from "./csv"
+import { formatMessage } from "./i18n"
+import {
+  formatMoney,
+  isNegative,
+  subtractMoney,
+  sumMoney,
+  toDecimalString,
+  type Money,
+} from "./money"
+
+export type StatementFormat = "csv" | "ofx" | "qfx" | "html"
+
+/** Everything needed to render a statement. Plain data, so it can be posted to a worker. */
+export interface StatementData {
+  account: BankAccount
+  /** Inclusive `yyyy-MM-dd` bounds. */
+  from: string
+  to: string
+  openingBalance: Money
+  closingBalance: Money
+  /** Oldest first. */
+  transactions: Transaction[]
+  /** ISO timestamp. */
+  generatedAt: string
+  tenant: TenantConfig
+}
+
+export interface StatementFile {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+/**
+ * Orders transactions oldest first and derives opening and closing balances
+ * from their running balances. With no activity in the period, both are
+ * `quietPeriodBalance`.
+ */
+export function prepareStatementTransactions(
+  transactions: Transaction[],
+  quietPeriodBalance: Money
+): Pick<StatementData, "transactions" | "openingBalance" | "closingBalance"> {
+  const sorted = [...transactions].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+  if (sorted.length === 0) {
+    return { transactions: sorted, openingBalance: quietPeriodBalance, closingBalance: quietPeriodBalance }
+  }
+  const first = sorted[0]
+  return {
+    transactions: sorted,
+    openingBalance: subtractMoney(first.balanceAfter, first.amount),
+    closingBalance: sorted[sorted.length - 1].balanceAfter,
+  }
+}
+
+function getFilename(data: StatementData, extension: string): string {
+  return `statement-${data.account.accountId}-${data.from}_${data.to}.${extension}`
+}
+
+function buildCsv(data: StatementData): StatementFile {
+  const rows = data.transactions.map((transaction) => [
+    format(parseISO(transaction.timestamp), "yyyy-MM-dd HH:mm:ss"),
+    transaction.description,
+    transaction.type,
+    toDecimalString(transaction.amount),
+    toDecimalString(transaction.balanceAfter),
+    transaction.amount.currency,
+    transaction.transactionId,
+  ])
+  return {
+    filename: getFilename(data, "csv"),
+    mimeType: "text/csv;charset=utf-8",
+    content: toCsv(["Date", "Description", "Type", "Amount", "Balance", "Currency", "Transaction ID"], rows),
+  }
+}
+
+const OFX_TRANSACTION_TYPES: Record<TransactionType, string> = {
+  DEPOSIT: "DEP",
+  WITHDRAWAL: "DEBIT",
+  TRANSFER_IN: "XFER",
+  TRANSFER_OUT: "XFER",
+  PAYMENT: "PAYMENT",
+  FEE: "FEE",
+  INTEREST: "INT",
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+
+/** OFX date-time in UTC, e.g. `20250131235959.000[0:GMT]`. */
+function toOfxDate(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}` +
+    `.${pad(date.getUTCMilliseconds(), 3)}[0:GMT]`
+  )
+}
+
+// OFX 1.x is SGML: elements holding data have no closing tag, and only
+// `&`, `<` and `>` need escaping.
+function ofxText(value: string, maxLength: number): string {
+  return value
+    .slice(0, maxLength)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/[\r\n]+/g, " ")
+}
+
+function buildOfx(data: StatementData, quicken: boolean): StatementFile {
+  const { account, tenant } = data
+  const isCreditCard = getAccountTypeInfo(account.accountType).ofxAccountType === "CREDITCARD"
+  const periodStart = toOfxDate(parseISO(`${data.from}T00:00:00Z`))
+  const periodEnd = toOfxDate(parseISO(`${data.to}T23:59:59Z`))
+  const generatedAt = toOfxDate(parseISO(data.generatedAt))
+
+  const accountFrom = isCreditCard
+    ? ["<CCACCTFROM>", `<ACCTID>${ofxText(account.accountId, 22)}`, "</CCACCTFROM>"]
+    : [
+        "<BANKACCTFROM>",
+        `<BANKID>${tenant.ofx.fid}`,
+        `<ACCTID>${ofxText(account.accountId, 22)}`,
+        `<ACCTTYPE>${getAccountTypeInfo(account.accountType).ofxAccountType}`,
+        "</BANKACCTFROM>",
+      ]
+
+  const transactions = data.transactions.flatMap((transaction) => [
+    "<STMTTRN>",
+    `<TRNTYPE>${OFX_TRANSACTION_TYPES[transaction.type]}`,
+    `<DTPOSTED>${toOfxDate(parseISO(transaction.timestamp))}`,
+    `<TRNAMT>${toDecimalString(transaction.amount)}`,
+    `<FITID>${ofxText(transaction.transactionId, 255)}`,
+    `<NAME>${ofxText(transaction.description, 32)}`,
+    `<MEMO>${ofxText(transaction.description, 255)}`,
+    "</STMTTRN>",
+  ])
+
+  const statement = [
+    `<CURDEF>${account.balance.currency}`,
+    ...accountFrom,
+    "<BANKTRANLIST>",
+    `<DTSTART>${periodStart}`,
+    `<DTEND>${periodEnd}`,
+    ...transactions,
+    "</BANKTRANLIST>",
+    "<LEDGERBAL>",
+    `<BALAMT>${toDecimalString(data.closingBalance)}`,
+    `<DTASOF>${periodEnd}`,
+    "</LEDGERBAL>",
+  ]
+
+  const lines = [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:UTF-8",
+    "CHARSET:NONE",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS>",
+    "<CODE>0",
+    "<SEVERITY>INFO",
+    "</STATUS>",
+    `<DTSERVER>${generatedAt}`,
+    "<LANGUAGE>ENG",
+    "<FI>",
+    `<ORG>${ofxText(tenant.ofx.org, 32)}`,
+    `<FID>${tenant.ofx.fid}`,
+    "</FI>",
+    ...(quicken ? [`<INTU.BID>${tenant.ofx.intuitBid}`] : []),
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    isCreditCard ? "<CREDITCARDMSGSRSV1>" : "<BANKMSGSRSV1>",
+    isCreditCard ? "<CCSTMTTRNRS>" : "<STMTTRNRS>",
+    "<TRNUID>0",
+    "<STATUS>",
+    "<CODE>0",
+    "<SEVERITY>INFO",
+    "</STATUS>",
+    isCreditCard ? "<CCSTMTRS>" : "<STMTRS>",
+    ...statement,
+    isCreditCard ? "</CCSTMTRS>" : "</STMTRS>",
+    isCreditCard ? "</CCSTMTTRNRS>" : "</STMTTRNRS>",
+    isCreditCard ? "</CREDITCARDMSGSRSV1>" : "</BANKMSGSRSV1>",
+    "</OFX>",
+  ]
+
+  return {
+    filename: getFilename(data, quicken ? "qfx" : "ofx"),
+    mimeType: quicken ? "application/vnd.intu.qfx" : "application/x-ofx",
+    content: lines.join("\r\n"),
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+const formatDay = (value: string) => format(parseISO(value), "MMM d, yyyy")
+
+function buildHtml(data: StatementData): StatementFile {
+  const { account, tenant } = data
+  const formatAmount = (amount: Money) => escapeHtml(formatMoney(amount, { locale: tenant.locale }))
+  const supportContact = [tenant.support.email, tenant.support.phone].filter(Boolean).join(" or ")
+  const currency = account.balance.currency
+  const credits = data.transactions.filter((transaction) => !isNegative(transaction.amount))
+  const debits = data.transactions.filter((transaction) => isNegative(transaction.amount))
+  const moneyIn = sumMoney(credits.map((transaction) => transaction.amount), currency)
+  const moneyOut = sumMoney(debits.map((transaction) => transaction.amount), currency)
+  const period = `${formatDay(data.from)} – ${formatDay(data.to)}`
+  // Statements are English documents, so labels come from the source catalog.
+  const typeLabel = formatMessage(en[getAccountTypeInfo(account.accountType).labelKey], tenant.locale)
+  const title = `${tenant.bankName} statement · ${account.accountName} · ${period}`
+
+  const rows = data.transactions
+    .map(
+      (transaction) => `<tr>
+<td>${escapeHtml(format(parseISO(transaction.timestamp), "MMM d, yyyy"))}</td>
+<td>${escapeHtml(transaction.description)}</td>
+<td class="num ${isNegative(transaction.amount) ? "debit" : "credit"}">${formatAmount(transaction.amount)}</td>
+<td class="num">${formatAmount(transaction.balanceAfter)}</td>
+</tr>`
+    )
+    .join("\n")
+
+  const content = `<!DOCTYPE html>
+<html lang="${escapeHtml(tenant.locale)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+@page { size: A4; margin: 18mm 15mm; }
+* { box-sizing: border-box; }
+body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; font-size: 11pt; margin: 0; }
+header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid ${tenant.colors.primary}; padding-bottom: 12px; margin-bottom: 16px; }
+.brand { display: flex; align-items: center; gap: 12px; }
+.logo { height: 40px; width: auto; }
+h1 { font-size: 18pt; color: ${tenant.colors.primary}; margin: 0; }
+h2 { font-size: 12pt; margin: 0 0 4px; }
+.muted { color: #6b7280; font-size: 9pt; }
+.summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-bottom: 16px; }
+.summary div { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px; }
+.summary strong { display: block; font-size: 12pt; }
+table { width: 100%; border-collapse: collapse; }
+thead { display: table-header-group; }
+th { text-align: left; font-size: 9pt; text-transform: uppercase; color: #6b7280; border-bottom: 1px solid #d1d5db; padding: 6px 4px; }
+td { border-bottom: 1px solid #f3f4f6; padding: 6px 4px; vertical-align: top; }
+tr { page-break-inside: avoid; }
+.num { text-align: right; white-space: nowrap; }
+.credit { color: #15803d; }
+.debit { color: #b91c1c; }
+footer { margin-top: 16px; }
+</style>
+</head>
+<body>
+<header>
+<div class="brand">
+${tenant.logoUrl ? `<img class="logo" src="${escapeHtml(tenant.logoUrl)}" alt="">` : ""}
+<div>
+<h1>${escapeHtml(tenant.bankName)}</h1>
+<p class="muted">Account statement</p>
+</div>
+</div>
+<div style="text-align: right">
+<h2>${escapeHtml(account.accountName)}</h2>
+<p class="muted">${escapeHtml(typeLabel)} · ${escapeHtml(account.accountId)}</p>
+<p class="muted">${escapeHtml(period)}</p>
+</div>
+</header>
+<section class="summary">
+<div><span class="muted">Opening balance</span><strong>${formatAmount(data.openingBalance)}</strong></div>
+<div><span class="muted">Money in</span><strong class="credit">${formatAmount(moneyIn)}</strong></div>
+<div><span class="muted">Money out</span><strong class="debit">${formatAmount(moneyOut)}</strong></div>
+<div><span class="muted">Closing balance</span><strong>${formatAmount(data.closingBalance)}</strong></div>
+</section>
+<table>
+<thead><tr><th>Date</th><th>Description</th><th class="num">Amount</th><th class="num">Balance</th></tr></thead>
+<tbody>
+${rows || '<tr><td colspan="4" class="muted">No transactions in this period.</td></tr>'}
+</tbody>
+</table>
+<footer class="muted">
+<p>Generated ${escapeHtml(format(parseISO(data.generatedAt), "MMM d, yyyy h:mm a"))}. Questions about this statement: ${escapeHtml(supportContact)}.</p>
+<p>${escapeHtml(tenant.legal.footer.replace("{year}", String(parseISO(data.generatedAt).getFullYear())))}</p>
+${tenant.legal.disclaimer ? `<p>${escapeHtml(tenant.legal.disclaimer)}</p>` : ""}
+</footer>
+</body>
+</html>`
+
+  return { filename: getFilename(data, "html"), mimeType: "text/html;charset=utf-8", content }
+}
+
+export function buildStatementFile(statementFormat: StatementFormat, data: StatementData): StatementFile {
+  switch (statementFormat) {
+    case "csv":
+      return buildCsv(data)
+    case "ofx":
+      return buildOfx(data, false)
+    case "qfx":
+      return buildOfx(data, true)
+    case "html":
+      return buildHtml(data)
+  }
+}
@@ -0,0 +1,301 @@
+import type { Catalog } from "./en"
+
+export const ar: Catalog = {
+  "app.subtitle": "نظام إدارة الحسابات",
+  "app.support": "الدعم:",
+  "language.label": "اللغة",
+  "language.change": "تغيير اللغة",
+  "theme.label": "المظهر",
+  "theme.change": "تغيير المظهر",
+  "theme.light": "فاتح",
+  "theme.dark": "داكن",
+  "theme.system": "النظام",
+  "operator.signedInAs": "تم تسجيل الدخول باسم {name}",
+  "operator.signOut": "تسجيل الخروج",
+  "approvals.link": "الموافقات",
+  "approvals.pendingCount": {
+    zero: "لا توجد طلبات معلقة",
+    one: "طلب معلق واحد",
+    two: "طلبان معلقان",
+    few: "{count} طلبات معلقة",
+    many: "{count} طلبًا معلقًا",
+    other: "{count} طلب معلق",
+  },
+  "pagination.previous": "السابق",
+  "pagination.next": "التالي",
+  "pagination.previousPage": "الانتقال إلى الصفحة السابقة",
+  "pagination.nextPage": "الانتقال إلى الصفحة التالية",
+
+  "palette.open": "البحث أو الانتقال إلى...",
+  "palette.placeholder": "ابحث عن المستخدمين والحسابات والإجراءات...",
+  "palette.searching": "جارٍ البحث...",
+  "palette.error": "البحث غير متاح حاليًا",
+  "palette.empty": "لا توجد نتائج",
+  "palette.recent": "الأخيرة",
+  "palette.users": "المستخدمون",
+  "palette.accounts": "الحسابات",
+  "palette.actions": "الإجراءات",
+  "palette.user": "المستخدم {userId}",
+  "palette.transferFrom": "فتح تحويل من {name}",
+  "palette.freeze": "تجميد {name}",
+  "palette.goToApprovals": "الانتقال إلى الموافقات",
+  "palette.toggleTheme": "تبديل السمة",
+
+  "shortcuts.title": "اختصارات لوحة المفاتيح",
+  "shortcuts.description": "اضغط ? في أي وقت لعرض هذه القائمة.",
+  "shortcuts.general": "عام",
+  "shortcuts.users": "قائمة المستخدمين",
+  "shortcuts.accounts": "قائمة الحسابات",
+  "shortcuts.openPalette": "فتح لوحة الأوامر",
+  "shortcuts.showHelp": "عرض اختصارات لوحة المفاتيح",
+  "shortcuts.focusSearch": "البحث عن المستخدمين",
+  "shortcuts.moveUser": "التنقل بين المستخدمين",
+  "shortcuts.firstLast": "المستخدم الأول أو الأخير",
+  "shortcuts.openUser": "فتح المستخدم المحدد",
+  "shortcuts.changePage": "الصفحة السابقة أو التالية",
+  "shortcuts.moveAccount": "التنقل بين الحسابات",
+  "shortcuts.openAccount": "فتح الحساب المحدد",
+  "shortcuts.accountActions": "الوصول إلى إجراءات الحساب",
+  "shortcuts.or": "أو",
+
+  "userList.title": "المستخدمون",
+  "userList.total": {
+    zero: "لا يوجد مستخدمون",
+    one: "مستخدم واحد",
+    two: "مستخدمان",
+    few: "{count} مستخدمين",
+    many: "{count} مستخدمًا",
+    other: "{count} مستخدم",
+  },
+  "userList.searchPlaceholder": "البحث برقم المستخدم",
+  "userList.searchLabel": "البحث عن المستخدمين",
+  "userList.sortLabel": "ترتيب المستخدمين",
+  "userList.sortAsc": "رقم المستخدم (تصاعدي)",
+  "userList.sortDesc": "رقم المستخدم (تنازلي)",
+  "userList.pageSizeLabel": "المستخدمون في كل صفحة",
+  "userList.pageSizeOption": "{size} / صفحة",
+  "userList.noAccess": "لا يملك دورك صلاحية الوصول إلى دليل العملاء.",
+  "userList.loading": "جارٍ تحميل المستخدمين...",
+  "userList.loadError": "تعذّر تحميل المستخدمين",
+  "userList.noMatches": "لا يوجد مستخدم يطابق «{search}»",
+  "userList.empty": "لم يتم العثور على مستخدمين",
+
+  "accountList.title": "الحسابات المصرفية",
+  "accountList.titleForUser": "الحسابات المصرفية للمستخدم {userId}",
+  "accountList.selectUser": "اختر مستخدمًا لعرض حساباته",
+  "accountList.loading": "جارٍ تحميل الحسابات...",
+  "accountList.loadError": "تعذّر تحميل الحسابات",
+  "accountList.userNotFound": "لم يتم العثور على المستخدم {userId}",
+  "accountList.empty": "لا توجد حسابات لهذا المستخدم",
+  "accountList.accountId": "رقم الحساب: {accountId}",
+  "accountList.balanceHidden": "لا يملك دورك صلاحية عرض الأرصدة",
+  "accountList.transfer": "تحويل",
+  "accountList.viewTransactions": "عرض المعاملات",
+  "accountList.hideTransactions": "إخفاء المعاملات",
+  "accountList.statement": "كشف الحساب",
+  "accountList.actionsFor": "إجراءات الحساب {name}",
+  "accountList.statusMenu": "حالة الحساب",
+  "accountList.auditLog": "سجل التدقيق",
+  "accountList.openAccount": "فتح حساب",
+  "accountList.cannotOpen": "لا يملك دورك صلاحية فتح الحسابات",
+
+  "portfolio.assets": "الأصول",
+  "portfolio.liabilities": "الالتزامات",
+  "portfolio.netPosition": "صافي المركز",
+  "portfolio.typeCount": "{type} ({count})",
+  "portfolio.converted": {
+    zero: "لم يُحوَّل أي رصيد إلى {currency}.",
+    one: "حُوِّل رصيد واحد إلى {currency} بأسعار استرشادية.",
+    two: "حُوِّل رصيدان إلى {currency} بأسعار استرشادية.",
+    few: "حُوِّلت {count} أرصدة إلى {currency} بأسعار استرشادية.",
+    many: "حُوِّل {count} رصيدًا إلى {currency} بأسعار استرشادية.",
+    other: "حُوِّل {count} رصيد إلى {currency} بأسعار استرشادية.",
+  },
+  "portfolio.perCurrency": "تُعرض الإجماليات بشكل منفصل لكل عملة.",
+  "portfolio.includesInactive": {
+    zero: "لا يشمل أي حساب غير نشط.",
+    one: "يشمل حسابًا واحدًا غير نشط.",
+    two: "يشمل حسابين غير نشطين.",
+    few: "يشمل {count} حسابات غير نشطة.",
+    many: "يشمل {count} حسابًا غير نشط.",
+    other: "يشمل {count} حساب غير نشط.",
+  },
+  "portfolio.excludesClosed": {
+    zero: "لا يستثني أي حساب مغلق.",
+    one: "يستثني حسابًا واحدًا مغلقًا.",
+    two: "يستثني حسابين مغلقين.",
+    few: "يستثني {count} حسابات مغلقة.",
+    many: "يستثني {count} حسابًا مغلقًا.",
+    other: "يستثني {count} حساب مغلق.",
+  },
+
+  "accountDetail.back": "العودة إلى الحسابات",
+  "accountDetail.loading": "جارٍ تحميل الحساب...",
+  "accountDetail.loadError": "تعذّر تحميل الحساب",
+  "accountDetail.notFound": "لم يتم العثور على الحساب {accountId}",
+  "accountDetail.otherOwner": "الحساب {accountId} لا يخص المستخدم {userId}",
+  "accountDetail.exportStatement": "تصدير كشف الحساب",
+  "accountDetail.accountId": "رقم الحساب",
+  "accountDetail.owner": "المالك",
+  "accountDetail.type": "النوع",
+  "accountDetail.status": "الحالة",
+  "accountDetail.opened": "تاريخ الفتح",
+  "accountDetail.interestRate": "سعر الفائدة",
+  "accountDetail.transactions": "المعاملات",
+
+  "balanceHistory.title": "سجل الرصيد",
+  "balanceHistory.30d": "30 يومًا",
+  "balanceHistory.90d": "90 يومًا",
+  "balanceHistory.1y": "سنة",
+  "balanceHistory.custom": "مخصص",
+  "balanceHistory.selectDates": "اختر التواريخ",
+  "balanceHistory.pickDates": "اختر تاريخ البداية والنهاية",
+  "balanceHistory.loading": "جارٍ تحميل سجل الرصيد...",
+  "balanceHistory.loadError": "تعذّر تحميل سجل الرصيد",
+  "balanceHistory.empty": "لا يوجد سجل رصيد لهذه الفترة",
+  "balanceHistory.balance": "الرصيد",
+
+  "transactions.anyDate": "أي تاريخ",
+  "transactions.minAmount": "الحد الأدنى للمبلغ",
+  "transactions.maxAmount": "الحد الأقصى للمبلغ",
+  "transactions.invalidAmount": "أدخل مبلغًا مثل {example}",
+  "transactions.minAboveMax": "الحد الأدنى للمبلغ أكبر من الحد الأقصى",
+  "transactions.allTypes": "جميع الأنواع",
+  "transactions.reset": "إعادة تعيين",
+  "transactions.loading": "جارٍ تحميل المعاملات...",
+  "transactions.loadError": "تعذّر تحميل المعاملات",
+  "transactions.accountGone": "هذا الحساب لم يعد موجودًا",
+  "transactions.noMatches": "لا توجد معاملات تطابق عوامل التصفية هذه",
+  "transactions.date": "التاريخ",
+  "transactions.description": "الوصف",
+  "transactions.type": "النوع",
+  "transactions.amount": "المبلغ",
+  "transactions.balance": "الرصيد",
+  "transactions.pageOf": "الصفحة {page} من {total}",
+
+  "audit.anyDate": "أي تاريخ",
+  "audit.loading": "جارٍ تحميل أحداث التدقيق...",
+  "audit.loadError": "تعذّر تحميل أحداث التدقيق",
+  "audit.noMatches": "لا توجد أحداث تدقيق تطابق عوامل التصفية هذه",
+  "audit.when": "الوقت",
+  "audit.event": "الحدث",
+  "audit.actor": "المنفّذ",
+  "audit.details": "التفاصيل",
+  "audit.requestId": "معرّف الطلب",
+  "audit.account": "الحساب {accountId}",
+  "audit.none": "لا شيء",
+  "audit.eventType": "نوع الحدث",
+  "audit.allEvents": "جميع الأحداث",
+  "audit.actorPlaceholder": "اسم مستخدم المنفّذ",
+  "audit.filterByActor": "التصفية حسب المنفّذ",
+  "audit.reset": "إعادة تعيين",
+  "audit.export": "تصدير CSV",
+  "audit.exporting": "جارٍ التصدير...",
+  "audit.exportTruncated": "تم تصدير أول {limit} من أصل {total} حدث. ضيّق عوامل التصفية لتصدير الباقي.",
+  "audit.exportError": "تعذّر تصدير أحداث التدقيق",
+  "audit.pageOf": "الصفحة {page} من {total}",
+  "": "",
+  "auditCsv.timestamp": "الطابع الزمني",
+  "auditCsv.event": "الحدث",
+  "auditCsv.actor": "المنفّذ",
+  "auditCsv.actorUsername": "اسم مستخدم المنفّذ",
+  "auditCsv.userId": "معرّف المستخدم",
+  "auditCsv.accountId": "معرّف الحساب",
+  "auditCsv.description": "الوصف",
+  "auditCsv.field": "الحقل",
+  "auditCsv.before": "قبل",
+  "auditCsv.after": "بعد",
+  "auditCsv.requestId": "معرّف الطلب",
+
+  "error.notFound": "غير موجود",
+  "error.invalidRequest": "طلب غير صالح",
+  "error.unexpectedResponse": "استجابة غير متوقعة من الخادم",
+  "error.timeout": "انتهت مهلة الطلب",
+  "error.network": "مشكلة في الاتصال",
+  "error.server": "الخادم غير متاح",
+  "error.generic": "حدث خطأ ما",
+  "error.unexpectedResponseDetail": "أرسل الخادم بيانات لا يفهمها هذا التطبيق ({endpoint}).",
+  "error.retry": "إعادة المحاولة",
+
+  "lifecycleDialog.title": "{action}: {name}",
+  "lifecycleDialog.needsApproval": "يجب أن يوافق مشغّل ثانٍ على هذا قبل أن يسري.",
+  "lifecycleDialog.owes": "على هذا الحساب مبلغ مستحق قدره {amount}. سدّد الرصيد قبل إغلاقه.",
+  "lifecycleDialog.reason": "السبب",
+  "lifecycleDialog.selectReason": "اختر سببًا",
+  "lifecycleDialog.note": "ملاحظة",
+  "lifecycleDialog.notePlaceholder": "ما الذي حدث ومن طلبه",
+  "lifecycleDialog.noteRequired": "أضف ملاحظة توضّح هذا التغيير",
+  "lifecycleDialog.noteTooLong": "يجب ألا تتجاوز الملاحظة 500 حرف",
+  "lifecycleDialog.sweepTo": "تحويل {amount} إلى",
+  "lifecycleDialog.selectAccount": "اختر حسابًا",
+  "lifecycleDialog.sweepRequired": "اختر الحساب الذي سيُحوَّل إليه الرصيد المتبقي",
+  "lifecycleDialog.noSweepTargets": "لا يملك هذا العميل حساب إيداع نشطًا آخر بهذه العملة لاستلام الأموال.",
+  "lifecycleDialog.cancel": "إلغاء",
+  "lifecycleDialog.saving": "جارٍ الحفظ...",
+  "lifecycleDialog.submitForApproval": "إرسال للموافقة",
+  "lifecycleDialog.stepUpReason": "تحقّق من هويتك لطلب هذا التغيير.",
+  "lifecycleDialog.failed": "تعذّر تحديث الحساب",
+  "": "",
+  "openAccount.nothingToFund": "تُفتح حسابات {type} برصيد صفري، لذا لا يوجد ما يُموَّل.",
+  "": "",
+  "transfer.sourceInactive": "الحساب المصدر غير نشط",
+  "transfer.destinationInactive": "الحساب الوجهة غير نشط",
+  "transfer.typeNotAllowed": "لا يمكن لحسابات {type} إرسال التحويلات أو استلامها",
+
+  "accountType.CHECKING": "جاري",
+  "accountType.SAVINGS": "توفير",
+  "accountType.CREDIT": "ائتمان",
+  "accountType.LOAN": "قرض",
+  "accountType.MORTGAGE": "رهن عقاري",
+  "accountType.BROKERAGE": "وساطة",
+  "accountType.UNKNOWN": "أخرى",
+  "accountTypeDescription.CHECKING": "للإنفاق اليومي مع بطاقة خصم",
+  "accountTypeDescription.SAVINGS": "حساب بفائدة للادخار",
+  "accountTypeDescription.CREDIT": "خط ائتمان متجدد يبدأ برصيد صفري",
+  "accountTypeDescription.LOAN": "قرض محدد المدة يُسدَّد على أقساط",
+  "accountTypeDescription.MORTGAGE": "قرض مضمون بعقار",
+  "accountTypeDescription.BROKERAGE": "حساب استثماري يضم أوراقًا مالية ونقدًا",
+  "accountTypeDescription.UNKNOWN": "نوع حساب لا تتعرف عليه هذه الواجهة",
+  "accountStatus.ACTIVE": "نشط",
+  "accountStatus.FROZEN": "مجمّد",
+  "accountStatus.CLOSED": "مغلق",
+  "accountStatus.PENDING": "قيد الانتظار",
+  "accountStatus.UNKNOWN": "غير معروف",
+  "accountStatusDescription.ACTIVE": "مفتوح للنشاط العادي",
+  "accountStatusDescription.FROZEN": "الخصم والإيداع محظوران حتى يُلغى تجميد الحساب",
+  "accountStatusDescription.CLOSED": "لا يمكن إجراء أي نشاط آخر",
+  "accountStatusDescription.PENDING": "قيد الفتح وغير متاح بعد",
+  "accountStatusDescription.UNKNOWN": "حالة لا تتعرف عليها هذه الواجهة",
+  "lifecycle.freeze": "تجميد",
+  "lifecycle.unfreeze": "إلغاء التجميد",
+  "lifecycle.close": "إغلاق",
+  "lifecycle.reopen": "إعادة فتح",
+  "lifecycleDescription.freeze": "يحظر جميع عمليات الخصم والإيداع حتى يُلغى تجميد الحساب.",
+  "lifecycleDescription.unfreeze": "يعيد النشاط العادي إلى الحساب.",
+  "lifecycleDescription.close": "يوقف النشاط نهائيًا. يجب تحويل أي أموال متبقية إلى حساب آخر.",
+  "lifecycleDescription.reopen": "يعيد حسابًا مغلقًا إلى الاستخدام النشط.",
+  "lifecycleReason.SUSPECTED_FRAUD": "اشتباه في احتيال",
+  "lifecycleReason.CUSTOMER_REQUEST": "طلب العميل",
+  "lifecycleReason.LEGAL_HOLD": "حجز قانوني",
+  "lifecycleReason.COMPLIANCE_REVIEW": "مراجعة الامتثال",
+  "lifecycleReason.INVESTIGATION_CLEARED": "انتهاء التحقيق",
+  "lifecycleReason.HOLD_RELEASED": "رفع الحجز القانوني",
+  "lifecycleReason.DORMANT": "حساب خامل",
+  "lifecycleReason.FRAUD_CONFIRMED": "احتيال مؤكد",
+  "lifecycleReason.BANK_DECISION": "قرار البنك",
+  "lifecycleReason.CLOSED_IN_ERROR": "أُغلق عن طريق الخطأ",
+  "transactionType.DEPOSIT": "إيداع",
+  "transactionType.WITHDRAWAL": "سحب",
+  "transactionType.TRANSFER_IN": "تحويل وارد",
+  "transactionType.TRANSFER_OUT": "تحويل صادر",
+  "transactionType.PAYMENT": "دفعة",
+  "transactionType.FEE": "رسوم",
+  "transactionType.INTEREST": "فائدة",
+  "auditEvent.ACCOUNT_OPENED": "فتح حساب",
+  "auditEvent.STATUS_CHANGE": "تغيير الحالة",
+  "auditEvent.TRANSFER": "تحويل",
+  "auditEvent.RENAME": "إعادة تسمية",
+  "auditEvent.LOGIN": "تسجيل الدخول",
+  "auditEvent.APPROVAL": "موافقة",
+  "auditEvent.UNKNOWN": "أخرى",
+}
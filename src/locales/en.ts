@@ -0,0 +1,280 @@
+import type { Message } from "@/lib/i18n"
+
+// The source catalog: its keys are the set every other language must translate.
+export const en = {
+  "app.subtitle": "Account Management System",
+  "app.support": "Support:",
+  "language.label": "Language",
+  "language.change": "Change language",
+  "theme.label": "Theme",
+  "theme.change": "Change theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+  "operator.signedInAs": "Signed in as {name}",
+  "operator.signOut": "Sign out",
+  "approvals.link": "Approvals",
+  "approvals.pendingCount": { one: "{count} pending request", other: "{count} pending requests" },
+  "pagination.previous": "Previous",
+  "pagination.next": "Next",
+  "pagination.previousPage": "Go to previous page",
+  "pagination.nextPage": "Go to next page",
+
+  "palette.open": "Search or jump to...",
+  "palette.placeholder": "Search users, accounts and actions...",
+  "palette.searching": "Searching...",
+  "palette.error": "Search is unavailable right now",
+  "palette.empty": "No results",
+  "palette.recent": "Recent",
+  "palette.users": "Users",
+  "palette.accounts": "Accounts",
+  "palette.actions": "Actions",
+  "palette.user": "User {userId}",
+  "palette.transferFrom": "Open transfer from {name}",
+  "palette.freeze": "Freeze {name}",
+  "palette.goToApprovals": "Go to approvals",
+  "palette.toggleTheme": "Toggle theme",
+
+  "shortcuts.title": "Keyboard shortcuts",
+  "shortcuts.description": "Press ? at any time to see this list.",
+  "shortcuts.general": "General",
+  "shortcuts.users": "User list",
+  "shortcuts.accounts": "Account list",
+  "shortcuts.openPalette": "Open the command palette",
+  "shortcuts.showHelp": "Show keyboard shortcuts",
+  "shortcuts.focusSearch": "Search users",
+  "shortcuts.moveUser": "Move between users",
+  "shortcuts.firstLast": "First or last user",
+  "shortcuts.openUser": "Open the focused user",
+  "shortcuts.changePage": "Previous or next page",
+  "shortcuts.moveAccount": "Move between accounts",
+  "shortcuts.openAccount": "Open the focused account",
+  "shortcuts.accountActions": "Reach the account's actions",
+  "shortcuts.or": "or",
+
+  "userList.title": "Users",
+  "userList.total": { one: "{count} total user", other: "{count} total users" },
+  "userList.searchPlaceholder": "Search by user ID",
+  "userList.searchLabel": "Search users",
+  "userList.sortLabel": "Sort users",
+  "userList.sortAsc": "User ID (A–Z)",
+  "userList.sortDesc": "User ID (Z–A)",
+  "userList.pageSizeLabel": "Users per page",
+  "userList.pageSizeOption": "{size} / page",
+  "userList.noAccess": "Your role does not have access to the customer directory.",
+  "userList.loading": "Loading users...",
+  "userList.loadError": "Failed to load users",
+  "userList.noMatches": "No users match \"{search}\"",
+  "userList.empty": "No users found",
+
+  "accountList.title": "Bank Accounts",
+  "accountList.titleForUser": "Bank Accounts for {userId}",
+  "accountList.selectUser": "Select a user to view their accounts",
+  "accountList.loading": "Loading accounts...",
+  "accountList.loadError": "Failed to load accounts",
+  "accountList.userNotFound": "User {userId} was not found",
+  "accountList.empty": "No accounts found for this user",
+  "accountList.accountId": "Account ID: {accountId}",
+  "accountList.balanceHidden": "Your role cannot view balances",
+  "accountList.transfer": "Transfer",
+  "accountList.viewTransactions": "View transactions",
+  "accountList.hideTransactions": "Hide transactions",
+  "accountList.statement": "Statement",
+  "accountList.actionsFor": "Account actions for {name}",
+  "accountList.statusMenu": "Account status",
+  "accountList.auditLog": "Audit log",
+  "accountList.openAccount": "Open account",
+  "accountList.cannotOpen": "Your role cannot open accounts",
+
+  "portfolio.assets": "Assets",
+  "portfolio.liabilities": "Liabilities",
+  "portfolio.netPosition": "Net position",
+  "portfolio.typeCount": "{type} ({count})",
+  "portfolio.converted": {
+    one: "{count} balance converted to {currency} at indicative rates.",
+    other: "{count} balances converted to {currency} at indicative rates.",
+  },
+  "portfolio.perCurrency": "Totals are shown separately for each currency.",
+  "portfolio.includesInactive": {
+    one: "Includes {count} non-active account.",
+    other: "Includes {count} non-active accounts.",
+  },
+  "portfolio.excludesClosed": {
+    one: "Excludes {count} closed account.",
+    other: "Excludes {count} closed accounts.",
+  },
+
+  "accountDetail.back": "Back to accounts",
+  "accountDetail.loading": "Loading account...",
+  "accountDetail.loadError": "Failed to load account",
+  "accountDetail.notFound": "Account {accountId} was not found",
+  "accountDetail.otherOwner": "Account {accountId} does not belong to user {userId}",
+  "accountDetail.exportStatement": "Export statement",
+  "accountDetail.accountId": "Account ID",
+  "accountDetail.owner": "Owner",
+  "accountDetail.type": "Type",
+  "accountDetail.status": "Status",
+  "accountDetail.opened": "Opened",
+  "accountDetail.interestRate": "Interest rate",
+  "accountDetail.transactions": "Transactions",
+
+  "balanceHistory.title": "Balance history",
+  "balanceHistory.30d": "30d",
+  "balanceHistory.90d": "90d",
+  "balanceHistory.1y": "1y",
+  "balanceHistory.custom": "Custom",
+  "balanceHistory.selectDates": "Select dates",
+  "balanceHistory.pickDates": "Pick a start and end date",
+  "balanceHistory.loading": "Loading balance history...",
+  "balanceHistory.loadError": "Failed to load balance history",
+  "balanceHistory.empty": "No balance history for this period",
+  "balanceHistory.balance": "Balance",
+
+  "transactions.anyDate": "Any date",
+  "transactions.minAmount": "Min amount",
+  "transactions.maxAmount": "Max amount",
+  "transactions.invalidAmount": "Enter an amount such as {example}",
+  "transactions.minAboveMax": "Min amount is more than max amount",
+  "transactions.allTypes": "All types",
+  "transactions.reset": "Reset",
+  "transactions.loading": "Loading transactions...",
+  "transactions.loadError": "Failed to load transactions",
+  "transactions.accountGone": "This account no longer exists",
+  "transactions.noMatches": "No transactions match these filters",
+  "transactions.date": "Date",
+  "transactions.description": "Description",
+  "transactions.type": "Type",
+  "transactions.amount": "Amount",
+  "transactions.balance": "Balance",
+  "transactions.pageOf": "Page {page} of {total}",
+
+  "audit.anyDate": "Any date",
+  "audit.loading": "Loading audit events...",
+  "audit.loadError": "Failed to load audit events",
+  "audit.noMatches": "No audit events match these filters",
+  "audit.when": "When",
+  "audit.event": "Event",
+  "audit.actor": "Actor",
+  "audit.details": "Details",
+  "audit.requestId": "Request ID",
+  "audit.account": "Account {accountId}",
+  "audit.none": "none",
+  "audit.eventType": "Event type",
+  "audit.allEvents": "All events",
+  "audit.actorPlaceholder": "Actor username",
+  "audit.filterByActor": "Filter by actor",
+  "audit.reset": "Reset",
+  "audit.export": "Export CSV",
+  "audit.exporting": "Exporting...",
+  "audit.exportTruncated": "Exported the first {limit} of {total} events. Narrow the filters to export the rest.",
+  "audit.exportError": "Failed to export audit events",
+  "audit.pageOf": "Page {page} of {total}",
+  "": "",
+  "auditCsv.timestamp": "Timestamp",
+  "auditCsv.event": "Event",
+  "auditCsv.actor": "Actor",
+  "auditCsv.actorUsername": "Actor username",
+  "auditCsv.userId": "User ID",
+  "auditCsv.accountId": "Account ID",
+  "auditCsv.description": "Description",
+  "auditCsv.field": "Field",
+  "auditCsv.before": "Before",
+  "auditCsv.after": "After",
+  "auditCsv.requestId": "Request ID",
+
+  "error.notFound": "Not found",
+  "error.invalidRequest": "Invalid request",
+  "error.unexpectedResponse": "Unexpected response from server",
+  "error.timeout": "Request timed out",
+  "error.network": "Connection problem",
+  "error.server": "Server unavailable",
+  "error.generic": "Something went wrong",
+  "error.unexpectedResponseDetail": "The server sent data this app does not understand ({endpoint}).",
+  "error.retry": "Try Again",
+
+  "lifecycleDialog.title": "{action}: {name}",
+  "lifecycleDialog.needsApproval": "A second operator must approve this before it takes effect.",
+  "lifecycleDialog.owes": "This account owes {amount}. Settle the balance before closing it.",
+  "lifecycleDialog.reason": "Reason",
+  "lifecycleDialog.selectReason": "Select a reason",
+  "lifecycleDialog.note": "Note",
+  "lifecycleDialog.notePlaceholder": "What happened and who asked for it",
+  "lifecycleDialog.noteRequired": "Add a note explaining this change",
+  "lifecycleDialog.noteTooLong": "Note must be 500 characters or fewer",
+  "lifecycleDialog.sweepTo": "Sweep {amount} to",
+  "lifecycleDialog.selectAccount": "Select an account",
+  "lifecycleDialog.sweepRequired": "Choose where to sweep the remaining balance",
+  "lifecycleDialog.noSweepTargets": "This customer has no other active deposit account in this currency to receive the funds.",
+  "lifecycleDialog.cancel": "Cancel",
+  "lifecycleDialog.saving": "Saving...",
+  "lifecycleDialog.submitForApproval": "Submit for approval",
+  "lifecycleDialog.stepUpReason": "Verify your identity to request this change.",
+  "lifecycleDialog.failed": "Failed to update the account",
+  "": "",
+  "openAccount.nothingToFund": "{type} accounts open with a zero balance, so there is nothing to fund.",
+  "": "",
+  "transfer.sourceInactive": "Source account is not active",
+  "transfer.destinationInactive": "Destination account is not active",
+  "transfer.typeNotAllowed": "{type} accounts cannot send or receive transfers",
+
+  "accountType.CHECKING": "Checking",
+  "accountType.SAVINGS": "Savings",
+  "accountType.CREDIT": "Credit",
+  "accountType.LOAN": "Loan",
+  "accountType.MORTGAGE": "Mortgage",
+  "accountType.BROKERAGE": "Brokerage",
+  "accountType.UNKNOWN": "Other",
+  "accountTypeDescription.CHECKING": "Everyday spending with debit card access",
+  "accountTypeDescription.SAVINGS": "Interest-bearing account for saving",
+  "accountTypeDescription.CREDIT": "Revolving credit line, starts at a zero balance",
+  "accountTypeDescription.LOAN": "Fixed-term loan repaid in instalments",
+  "accountTypeDescription.MORTGAGE": "Loan secured against a property",
+  "accountTypeDescription.BROKERAGE": "Investment account holding securities and cash",
+  "accountTypeDescription.UNKNOWN": "Account type not recognised by this console",
+  "accountStatus.ACTIVE": "Active",
+  "accountStatus.FROZEN": "Frozen",
+  "accountStatus.CLOSED": "Closed",
+  "accountStatus.PENDING": "Pending",
+  "accountStatus.UNKNOWN": "Unknown",
+  "accountStatusDescription.ACTIVE": "Open for normal activity",
+  "accountStatusDescription.FROZEN": "Debits and credits are blocked until the account is unfrozen",
+  "accountStatusDescription.CLOSED": "No further activity is possible",
+  "accountStatusDescription.PENDING": "Being opened and not available yet",
+  "accountStatusDescription.UNKNOWN": "Status not recognised by this console",
+  "lifecycle.freeze": "Freeze",
+  "lifecycle.unfreeze": "Unfreeze",
+  "lifecycle.close": "Close",
+  "lifecycle.reopen": "Reopen",
+  "lifecycleDescription.freeze": "Blocks all debits and credits until the account is unfrozen.",
+  "lifecycleDescription.unfreeze": "Restores normal activity on the account.",
+  "lifecycleDescription.close": "Permanently stops activity. Any remaining funds must be swept to another account.",
+  "lifecycleDescription.reopen": "Returns a closed account to active use.",
+  "lifecycleReason.SUSPECTED_FRAUD": "Suspected fraud",
+  "lifecycleReason.CUSTOMER_REQUEST": "Customer request",
+  "lifecycleReason.LEGAL_HOLD": "Legal hold",
+  "lifecycleReason.COMPLIANCE_REVIEW": "Compliance review",
+  "lifecycleReason.INVESTIGATION_CLEARED": "Investigation cleared",
+  "lifecycleReason.HOLD_RELEASED": "Legal hold released",
+  "lifecycleReason.DORMANT": "Dormant account",
+  "lifecycleReason.FRAUD_CONFIRMED": "Confirmed fraud",
+  "lifecycleReason.BANK_DECISION": "Bank decision",
+  "lifecycleReason.CLOSED_IN_ERROR": "Closed in error",
+  "transactionType.DEPOSIT": "Deposit",
+  "transactionType.WITHDRAWAL": "Withdrawal",
+  "transactionType.TRANSFER_IN": "Transfer in",
+  "transactionType.TRANSFER_OUT": "Transfer out",
+  "transactionType.PAYMENT": "Payment",
+  "transactionType.FEE": "Fee",
+  "transactionType.INTEREST": "Interest",
+  "auditEvent.ACCOUNT_OPENED": "Account opened",
+  "auditEvent.STATUS_CHANGE": "Status change",
+  "auditEvent.TRANSFER": "Transfer",
+  "auditEvent.RENAME": "Rename",
+  "auditEvent.LOGIN": "Sign-in",
+  "auditEvent.APPROVAL": "Approval",
+  "auditEvent.UNKNOWN": "Other",
+} satisfies Record<string, Message>
+
+export type MessageKey = keyof typeof en
+
+export type Catalog = Record<MessageKey, Message>
@@ -0,0 +1,275 @@
+import type { Catalog } from "./en"
+
+export const es: Catalog = {
+  "app.subtitle": "Sistema de gestión de cuentas",
+  "app.support": "Soporte:",
+  "language.label": "Idioma",
+  "language.change": "Cambiar idioma",
+  "theme.label": "Tema",
+  "theme.change": "Cambiar tema",
+  "theme.light": "Claro",
+  "theme.dark": "Oscuro",
+  "theme.system": "Sistema",
+  "operator.signedInAs": "Sesión iniciada como {name}",
+  "operator.signOut": "Cerrar sesión",
+  "approvals.link": "Aprobaciones",
+  "approvals.pendingCount": { one: "{count} solicitud pendiente", other: "{count} solicitudes pendientes" },
+  "pagination.previous": "Anterior",
+  "pagination.next": "Siguiente",
+  "pagination.previousPage": "Ir a la página anterior",
+  "pagination.nextPage": "Ir a la página siguiente",
+
+  "palette.open": "Buscar o ir a...",
+  "palette.placeholder": "Buscar usuarios, cuentas y acciones...",
+  "palette.searching": "Buscando...",
+  "palette.error": "La búsqueda no está disponible en este momento",
+  "palette.empty": "Sin resultados",
+  "palette.recent": "Recientes",
+  "palette.users": "Usuarios",
+  "palette.accounts": "Cuentas",
+  "palette.actions": "Acciones",
+  "palette.user": "Usuario {userId}",
+  "palette.transferFrom": "Abrir transferencia desde {name}",
+  "palette.freeze": "Congelar {name}",
+  "palette.goToApprovals": "Ir a aprobaciones",
+  "palette.toggleTheme": "Cambiar tema",
+
+  "shortcuts.title": "Atajos de teclado",
+  "shortcuts.description": "Pulsa ? en cualquier momento para ver esta lista.",
+  "shortcuts.general": "General",
+  "shortcuts.users": "Lista de usuarios",
+  "shortcuts.accounts": "Lista de cuentas",
+  "shortcuts.openPalette": "Abrir la paleta de comandos",
+  "shortcuts.showHelp": "Mostrar los atajos de teclado",
+  "shortcuts.focusSearch": "Buscar usuarios",
+  "shortcuts.moveUser": "Moverse entre usuarios",
+  "shortcuts.firstLast": "Primer o último usuario",
+  "shortcuts.openUser": "Abrir el usuario seleccionado",
+  "shortcuts.changePage": "Página anterior o siguiente",
+  "shortcuts.moveAccount": "Moverse entre cuentas",
+  "shortcuts.openAccount": "Abrir la cuenta seleccionada",
+  "shortcuts.accountActions": "Ir a las acciones de la cuenta",
+  "shortcuts.or": "o",
+
+  "userList.title": "Usuarios",
+  "userList.total": { one: "{count} usuario en total", other: "{count} usuarios en total" },
+  "userList.searchPlaceholder": "Buscar por ID de usuario",
+  "userList.searchLabel": "Buscar usuarios",
+  "userList.sortLabel": "Ordenar usuarios",
+  "userList.sortAsc": "ID de usuario (A–Z)",
+  "userList.sortDesc": "ID de usuario (Z–A)",
+  "userList.pageSizeLabel": "Usuarios por página",
+  "userList.pageSizeOption": "{size} / página",
+  "userList.noAccess": "Tu rol no tiene acceso al directorio de clientes.",
+  "userList.loading": "Cargando usuarios...",
+  "userList.loadError": "No se pudieron cargar los usuarios",
+  "userList.noMatches": "Ningún usuario coincide con «{search}»",
+  "userList.empty": "No se encontraron usuarios",
+
+  "accountList.title": "Cuentas bancarias",
+  "accountList.titleForUser": "Cuentas bancarias de {userId}",
+  "accountList.selectUser": "Selecciona un usuario para ver sus cuentas",
+  "accountList.loading": "Cargando cuentas...",
+  "accountList.loadError": "No se pudieron cargar las cuentas",
+  "accountList.userNotFound": "No se encontró el usuario {userId}",
+  "accountList.empty": "Este usuario no tiene cuentas",
+  "accountList.accountId": "ID de cuenta: {accountId}",
+  "accountList.balanceHidden": "Tu rol no puede ver saldos",
+  "accountList.transfer": "Transferir",
+  "accountList.viewTransactions": "Ver movimientos",
+  "accountList.hideTransactions": "Ocultar movimientos",
+  "accountList.statement": "Extracto",
+  "accountList.actionsFor": "Acciones de la cuenta {name}",
+  "accountList.statusMenu": "Estado de la cuenta",
+  "accountList.auditLog": "Registro de auditoría",
+  "accountList.openAccount": "Abrir cuenta",
+  "accountList.cannotOpen": "Tu rol no puede abrir cuentas",
+
+  "portfolio.assets": "Activos",
+  "portfolio.liabilities": "Pasivos",
+  "portfolio.netPosition": "Posición neta",
+  "portfolio.typeCount": "{type} ({count})",
+  "portfolio.converted": {
+    one: "{count} saldo convertido a {currency} con tipos de cambio indicativos.",
+    other: "{count} saldos convertidos a {currency} con tipos de cambio indicativos.",
+  },
+  "portfolio.perCurrency": "Los totales se muestran por separado para cada moneda.",
+  "portfolio.includesInactive": {
+    one: "Incluye {count} cuenta no activa.",
+    other: "Incluye {count} cuentas no activas.",
+  },
+  "portfolio.excludesClosed": {
+    one: "Excluye {count} cuenta cerrada.",
+    other: "Excluye {count} cuentas cerradas.",
+  },
+
+  "accountDetail.back": "Volver a las cuentas",
+  "accountDetail.loading": "Cargando cuenta...",
+  "accountDetail.loadError": "No se pudo cargar la cuenta",
+  "accountDetail.notFound": "No se encontró la cuenta {accountId}",
+  "accountDetail.otherOwner": "La cuenta {accountId} no pertenece al usuario {userId}",
+  "accountDetail.exportStatement": "Exportar extracto",
+  "accountDetail.accountId": "ID de cuenta",
+  "accountDetail.owner": "Titular",
+  "accountDetail.type": "Tipo",
+  "accountDetail.status": "Estado",
+  "accountDetail.opened": "Apertura",
+  "accountDetail.interestRate": "Tipo de interés",
+  "accountDetail.transactions": "Movimientos",
+
+  "balanceHistory.title": "Evolución del saldo",
+  "balanceHistory.30d": "30 d",
+  "balanceHistory.90d": "90 d",
+  "balanceHistory.1y": "1 a",
+  "balanceHistory.custom": "Personalizado",
+  "balanceHistory.selectDates": "Seleccionar fechas",
+  "balanceHistory.pickDates": "Elige una fecha de inicio y de fin",
+  "balanceHistory.loading": "Cargando la evolución del saldo...",
+  "balanceHistory.loadError": "No se pudo cargar la evolución del saldo",
+  "balanceHistory.empty": "No hay datos de saldo para este periodo",
+  "balanceHistory.balance": "Saldo",
+
+  "transactions.anyDate": "Cualquier fecha",
+  "transactions.minAmount": "Importe mín.",
+  "transactions.maxAmount": "Importe máx.",
+  "transactions.invalidAmount": "Introduce un importe como {example}",
+  "transactions.minAboveMax": "El importe mínimo supera al máximo",
+  "transactions.allTypes": "Todos los tipos",
+  "transactions.reset": "Restablecer",
+  "transactions.loading": "Cargando movimientos...",
+  "transactions.loadError": "No se pudieron cargar los movimientos",
+  "transactions.accountGone": "Esta cuenta ya no existe",
+  "transactions.noMatches": "Ningún movimiento coincide con estos filtros",
+  "transactions.date": "Fecha",
+  "transactions.description": "Descripción",
+  "transactions.type": "Tipo",
+  "transactions.amount": "Importe",
+  "transactions.balance": "Saldo",
+  "transactions.pageOf": "Página {page} de {total}",
+
+  "audit.anyDate": "Cualquier fecha",
+  "audit.loading": "Cargando eventos de auditoría...",
+  "audit.loadError": "No se pudieron cargar los eventos de auditoría",
+  "audit.noMatches": "Ningún evento de auditoría coincide con estos filtros",
+  "audit.when": "Cuándo",
+  "audit.event": "Evento",
+  "audit.actor": "Autor",
+  "audit.details": "Detalles",
+  "audit.requestId": "ID de solicitud",
+  "audit.account": "Cuenta {accountId}",
+  "audit.none": "ninguno",
+  "audit.eventType": "Tipo de evento",
+  "audit.allEvents": "Todos los eventos",
+  "audit.actorPlaceholder": "Usuario del autor",
+  "audit.filterByActor": "Filtrar por autor",
+  "audit.reset": "Restablecer",
+  "audit.export": "Exportar CSV",
+  "audit.exporting": "Exportando...",
+  "audit.exportTruncated": "Se exportaron los primeros {limit} de {total} eventos. Acota los filtros para exportar el resto.",
+  "audit.exportError": "No se pudieron exportar los eventos de auditoría",
+  "audit.pageOf": "Página {page} de {total}",
+  "": "",
+  "auditCsv.timestamp": "Fecha y hora",
+  "auditCsv.event": "Evento",
+  "auditCsv.actor": "Autor",
+  "auditCsv.actorUsername": "Usuario del autor",
+  "auditCsv.userId": "ID de usuario",
+  "auditCsv.accountId": "ID de cuenta",
+  "auditCsv.description": "Descripción",
+  "auditCsv.field": "Campo",
+  "auditCsv.before": "Antes",
+  "auditCsv.after": "Después",
+  "auditCsv.requestId": "ID de solicitud",
+
+  "error.notFound": "No encontrado",
+  "error.invalidRequest": "Solicitud no válida",
+  "error.unexpectedResponse": "Respuesta inesperada del servidor",
+  "error.timeout": "La solicitud ha caducado",
+  "error.network": "Problema de conexión",
+  "error.server": "Servidor no disponible",
+  "error.generic": "Algo salió mal",
+  "error.unexpectedResponseDetail": "El servidor envió datos que esta aplicación no entiende ({endpoint}).",
+  "error.retry": "Reintentar",
+
+  "lifecycleDialog.title": "{action}: {name}",
+  "lifecycleDialog.needsApproval": "Un segundo operador debe aprobarlo antes de que surta efecto.",
+  "lifecycleDialog.owes": "Esta cuenta debe {amount}. Liquida el saldo antes de cerrarla.",
+  "lifecycleDialog.reason": "Motivo",
+  "lifecycleDialog.selectReason": "Selecciona un motivo",
+  "lifecycleDialog.note": "Nota",
+  "lifecycleDialog.notePlaceholder": "Qué ocurrió y quién lo solicitó",
+  "lifecycleDialog.noteRequired": "Añade una nota que explique este cambio",
+  "lifecycleDialog.noteTooLong": "La nota debe tener 500 caracteres como máximo",
+  "lifecycleDialog.sweepTo": "Transferir {amount} a",
+  "lifecycleDialog.selectAccount": "Selecciona una cuenta",
+  "lifecycleDialog.sweepRequired": "Elige adónde transferir el saldo restante",
+  "lifecycleDialog.noSweepTargets": "Este cliente no tiene otra cuenta de depósito activa en esta moneda que pueda recibir los fondos.",
+  "lifecycleDialog.cancel": "Cancelar",
+  "lifecycleDialog.saving": "Guardando...",
+  "lifecycleDialog.submitForApproval": "Enviar para aprobación",
+  "lifecycleDialog.stepUpReason": "Verifica tu identidad para solicitar este cambio.",
+  "lifecycleDialog.failed": "No se pudo actualizar la cuenta",
+  "": "",
+  "openAccount.nothingToFund": "Las cuentas de tipo {type} se abren con saldo cero, así que no hay nada que financiar.",
+  "": "",
+  "transfer.sourceInactive": "La cuenta de origen no está activa",
+  "transfer.destinationInactive": "La cuenta de destino no está activa",
+  "transfer.typeNotAllowed": "Las cuentas de tipo {type} no pueden enviar ni recibir transferencias",
+
+  "accountType.CHECKING": "Corriente",
+  "accountType.SAVINGS": "Ahorro",
+  "accountType.CREDIT": "Crédito",
+  "accountType.LOAN": "Préstamo",
+  "accountType.MORTGAGE": "Hipoteca",
+  "accountType.BROKERAGE": "Inversión",
+  "accountType.UNKNOWN": "Otra",
+  "accountTypeDescription.CHECKING": "Gastos del día a día con tarjeta de débito",
+  "accountTypeDescription.SAVINGS": "Cuenta remunerada para ahorrar",
+  "accountTypeDescription.CREDIT": "Línea de crédito renovable, empieza con saldo cero",
+  "accountTypeDescription.LOAN": "Préstamo a plazo fijo que se devuelve en cuotas",
+  "accountTypeDescription.MORTGAGE": "Préstamo con garantía sobre un inmueble",
+  "accountTypeDescription.BROKERAGE": "Cuenta de inversión con valores y efectivo",
+  "accountTypeDescription.UNKNOWN": "Tipo de cuenta no reconocido por esta consola",
+  "accountStatus.ACTIVE": "Activa",
+  "accountStatus.FROZEN": "Congelada",
+  "accountStatus.CLOSED": "Cerrada",
+  "accountStatus.PENDING": "Pendiente",
+  "accountStatus.UNKNOWN": "Desconocido",
+  "accountStatusDescription.ACTIVE": "Abierta para la actividad normal",
+  "accountStatusDescription.FROZEN": "Cargos y abonos bloqueados hasta que se descongele la cuenta",
+  "accountStatusDescription.CLOSED": "No es posible ninguna otra actividad",
+  "accountStatusDescription.PENDING": "En proceso de apertura y aún no disponible",
+  "accountStatusDescription.UNKNOWN": "Estado no reconocido por esta consola",
+  "lifecycle.freeze": "Congelar",
+  "lifecycle.unfreeze": "Descongelar",
+  "lifecycle.close": "Cerrar",
+  "lifecycle.reopen": "Reabrir",
+  "lifecycleDescription.freeze": "Bloquea todos los cargos y abonos hasta que se descongele la cuenta.",
+  "lifecycleDescription.unfreeze": "Restablece la actividad normal de la cuenta.",
+  "lifecycleDescription.close": "Detiene la actividad de forma permanente. Los fondos restantes deben transferirse a otra cuenta.",
+  "lifecycleDescription.reopen": "Devuelve una cuenta cerrada al uso activo.",
+  "lifecycleReason.SUSPECTED_FRAUD": "Sospecha de fraude",
+  "lifecycleReason.CUSTOMER_REQUEST": "Solicitud del cliente",
+  "lifecycleReason.LEGAL_HOLD": "Retención legal",
+  "lifecycleReason.COMPLIANCE_REVIEW": "Revisión de cumplimiento",
+  "lifecycleReason.INVESTIGATION_CLEARED": "Investigación resuelta",
+  "lifecycleReason.HOLD_RELEASED": "Retención legal levantada",
+  "lifecycleReason.DORMANT": "Cuenta inactiva",
+  "lifecycleReason.FRAUD_CONFIRMED": "Fraude confirmado",
+  "lifecycleReason.BANK_DECISION": "Decisión del banco",
+  "lifecycleReason.CLOSED_IN_ERROR": "Cerrada por error",
+  "transactionType.DEPOSIT": "Depósito",
+  "transactionType.WITHDRAWAL": "Retirada",
+  "transactionType.TRANSFER_IN": "Transferencia recibida",
+  "transactionType.TRANSFER_OUT": "Transferencia enviada",
+  "transactionType.PAYMENT": "Pago",
+  "transactionType.FEE": "Comisión",
+  "transactionType.INTEREST": "Intereses",
+  "auditEvent.ACCOUNT_OPENED": "Cuenta abierta",
+  "auditEvent.STATUS_CHANGE": "Cambio de estado",
+  "auditEvent.TRANSFER": "Transferencia",
+  "auditEvent.RENAME": "Cambio de nombre",
+  "auditEvent.LOGIN": "Inicio de sesión",
+  "auditEvent.APPROVAL": "Aprobación",
+  "auditEvent.UNKNOWN": "Otro",
+}
@@ -0,0 +1,275 @@
+import type { Catalog } from "./en"
+
+export const fr: Catalog = {
+  "app.subtitle": "Système de gestion des comptes",
+  "app.support": "Assistance\u00a0:",
+  "language.label": "Langue",
+  "language.change": "Changer de langue",
+  "theme.label": "Thème",
+  "theme.change": "Changer de thème",
+  "theme.light": "Clair",
+  "theme.dark": "Sombre",
+  "theme.system": "Système",
+  "operator.signedInAs": "Connecté en tant que {name}",
+  "operator.signOut": "Se déconnecter",
+  "approvals.link": "Validations",
+  "approvals.pendingCount": { one: "{count} demande en attente", other: "{count} demandes en attente" },
+  "pagination.previous": "Précédent",
+  "pagination.next": "Suivant",
+  "pagination.previousPage": "Aller à la page précédente",
+  "pagination.nextPage": "Aller à la page suivante",
+
+  "palette.open": "Rechercher ou aller à...",
+  "palette.placeholder": "Rechercher des utilisateurs, des comptes et des actions...",
+  "palette.searching": "Recherche...",
+  "palette.error": "La recherche est indisponible pour le moment",
+  "palette.empty": "Aucun résultat",
+  "palette.recent": "Récents",
+  "palette.users": "Utilisateurs",
+  "palette.accounts": "Comptes",
+  "palette.actions": "Actions",
+  "palette.user": "Utilisateur {userId}",
+  "palette.transferFrom": "Ouvrir un virement depuis {name}",
+  "palette.freeze": "Geler {name}",
+  "palette.goToApprovals": "Aller aux approbations",
+  "palette.toggleTheme": "Changer de thème",
+
+  "shortcuts.title": "Raccourcis clavier",
+  "shortcuts.description": "Appuyez sur ? à tout moment pour afficher cette liste.",
+  "shortcuts.general": "Général",
+  "shortcuts.users": "Liste des utilisateurs",
+  "shortcuts.accounts": "Liste des comptes",
+  "shortcuts.openPalette": "Ouvrir la palette de commandes",
+  "shortcuts.showHelp": "Afficher les raccourcis clavier",
+  "shortcuts.focusSearch": "Rechercher des utilisateurs",
+  "shortcuts.moveUser": "Passer d’un utilisateur à l’autre",
+  "shortcuts.firstLast": "Premier ou dernier utilisateur",
+  "shortcuts.openUser": "Ouvrir l’utilisateur sélectionné",
+  "shortcuts.changePage": "Page précédente ou suivante",
+  "shortcuts.moveAccount": "Passer d’un compte à l’autre",
+  "shortcuts.openAccount": "Ouvrir le compte sélectionné",
+  "shortcuts.accountActions": "Accéder aux actions du compte",
+  "shortcuts.or": "ou",
+
+  "userList.title": "Utilisateurs",
+  "userList.total": { one: "{count} utilisateur au total", other: "{count} utilisateurs au total" },
+  "userList.searchPlaceholder": "Rechercher par identifiant",
+  "userList.searchLabel": "Rechercher des utilisateurs",
+  "userList.sortLabel": "Trier les utilisateurs",
+  "userList.sortAsc": "Identifiant (A–Z)",
+  "userList.sortDesc": "Identifiant (Z–A)",
+  "userList.pageSizeLabel": "Utilisateurs par page",
+  "userList.pageSizeOption": "{size} / page",
+  "userList.noAccess": "Votre rôle n’a pas accès à l’annuaire des clients.",
+  "userList.loading": "Chargement des utilisateurs...",
+  "userList.loadError": "Impossible de charger les utilisateurs",
+  "userList.noMatches": "Aucun utilisateur ne correspond à «\u00a0{search}\u00a0»",
+  "userList.empty": "Aucun utilisateur trouvé",
+
+  "accountList.title": "Comptes bancaires",
+  "accountList.titleForUser": "Comptes bancaires de {userId}",
+  "accountList.selectUser": "Sélectionnez un utilisateur pour voir ses comptes",
+  "accountList.loading": "Chargement des comptes...",
+  "accountList.loadError": "Impossible de charger les comptes",
+  "accountList.userNotFound": "Utilisateur {userId} introuvable",
+  "accountList.empty": "Aucun compte pour cet utilisateur",
+  "accountList.accountId": "N° de compte\u00a0: {accountId}",
+  "accountList.balanceHidden": "Votre rôle ne permet pas de voir les soldes",
+  "accountList.transfer": "Virement",
+  "accountList.viewTransactions": "Voir les opérations",
+  "accountList.hideTransactions": "Masquer les opérations",
+  "accountList.statement": "Relevé",
+  "accountList.actionsFor": "Actions sur le compte {name}",
+  "accountList.statusMenu": "Statut du compte",
+  "accountList.auditLog": "Journal d’audit",
+  "accountList.openAccount": "Ouvrir un compte",
+  "accountList.cannotOpen": "Votre rôle ne permet pas d’ouvrir des comptes",
+
+  "portfolio.assets": "Actifs",
+  "portfolio.liabilities": "Passifs",
+  "portfolio.netPosition": "Position nette",
+  "portfolio.typeCount": "{type} ({count})",
+  "portfolio.converted": {
+    one: "{count} solde converti en {currency} aux taux indicatifs.",
+    other: "{count} soldes convertis en {currency} aux taux indicatifs.",
+  },
+  "portfolio.perCurrency": "Les totaux sont affichés séparément pour chaque devise.",
+  "portfolio.includesInactive": {
+    one: "Inclut {count} compte non actif.",
+    other: "Inclut {count} comptes non actifs.",
+  },
+  "portfolio.excludesClosed": {
+    one: "Exclut {count} compte clôturé.",
+    other: "Exclut {count} comptes clôturés.",
+  },
+
+  "accountDetail.back": "Retour aux comptes",
+  "accountDetail.loading": "Chargement du compte...",
+  "accountDetail.loadError": "Impossible de charger le compte",
+  "accountDetail.notFound": "Le compte {accountId} est introuvable",
+  "accountDetail.otherOwner": "Le compte {accountId} n’appartient pas à l’utilisateur {userId}",
+  "accountDetail.exportStatement": "Exporter le relevé",
+  "accountDetail.accountId": "N° de compte",
+  "accountDetail.owner": "Titulaire",
+  "accountDetail.type": "Type",
+  "accountDetail.status": "Statut",
+  "accountDetail.opened": "Ouverture",
+  "accountDetail.interestRate": "Taux d’intérêt",
+  "accountDetail.transactions": "Opérations",
+
+  "balanceHistory.title": "Historique du solde",
+  "balanceHistory.30d": "30 j",
+  "balanceHistory.90d": "90 j",
+  "balanceHistory.1y": "1 an",
+  "balanceHistory.custom": "Personnalisé",
+  "balanceHistory.selectDates": "Choisir les dates",
+  "balanceHistory.pickDates": "Choisissez une date de début et de fin",
+  "balanceHistory.loading": "Chargement de l’historique du solde...",
+  "balanceHistory.loadError": "Impossible de charger l’historique du solde",
+  "balanceHistory.empty": "Aucun historique de solde pour cette période",
+  "balanceHistory.balance": "Solde",
+
+  "transactions.anyDate": "Toutes les dates",
+  "transactions.minAmount": "Montant min.",
+  "transactions.maxAmount": "Montant max.",
+  "transactions.invalidAmount": "Saisissez un montant comme {example}",
+  "transactions.minAboveMax": "Le montant min. dépasse le montant max.",
+  "transactions.allTypes": "Tous les types",
+  "transactions.reset": "Réinitialiser",
+  "transactions.loading": "Chargement des opérations...",
+  "transactions.loadError": "Impossible de charger les opérations",
+  "transactions.accountGone": "Ce compte n’existe plus",
+  "transactions.noMatches": "Aucune opération ne correspond à ces filtres",
+  "transactions.date": "Date",
+  "transactions.description": "Libellé",
+  "transactions.type": "Type",
+  "transactions.amount": "Montant",
+  "transactions.balance": "Solde",
+  "transactions.pageOf": "Page {page} sur {total}",
+
+  "audit.anyDate": "Toutes les dates",
+  "audit.loading": "Chargement des événements d’audit...",
+  "audit.loadError": "Impossible de charger les événements d’audit",
+  "audit.noMatches": "Aucun événement d’audit ne correspond à ces filtres",
+  "audit.when": "Date",
+  "audit.event": "Événement",
+  "audit.actor": "Auteur",
+  "audit.details": "Détails",
+  "audit.requestId": "ID de requête",
+  "audit.account": "Compte {accountId}",
+  "audit.none": "aucun",
+  "audit.eventType": "Type d’événement",
+  "audit.allEvents": "Tous les événements",
+  "audit.actorPlaceholder": "Identifiant de l’auteur",
+  "audit.filterByActor": "Filtrer par auteur",
+  "audit.reset": "Réinitialiser",
+  "audit.export": "Exporter en CSV",
+  "audit.exporting": "Exportation...",
+  "audit.exportTruncated": "Les {limit} premiers événements sur {total} ont été exportés. Affinez les filtres pour exporter le reste.",
+  "audit.exportError": "Impossible d’exporter les événements d’audit",
+  "audit.pageOf": "Page {page} sur {total}",
+  "": "",
+  "auditCsv.timestamp": "Horodatage",
+  "auditCsv.event": "Événement",
+  "auditCsv.actor": "Auteur",
+  "auditCsv.actorUsername": "Identifiant de l’auteur",
+  "auditCsv.userId": "ID utilisateur",
+  "auditCsv.accountId": "ID de compte",
+  "auditCsv.description": "Description",
+  "auditCsv.field": "Champ",
+  "auditCsv.before": "Avant",
+  "auditCsv.after": "Après",
+  "auditCsv.requestId": "ID de requête",
+
+  "error.notFound": "Introuvable",
+  "error.invalidRequest": "Requête invalide",
+  "error.unexpectedResponse": "Réponse inattendue du serveur",
+  "error.timeout": "La requête a expiré",
+  "error.network": "Problème de connexion",
+  "error.server": "Serveur indisponible",
+  "error.generic": "Une erreur est survenue",
+  "error.unexpectedResponseDetail": "Le serveur a envoyé des données que cette application ne comprend pas ({endpoint}).",
+  "error.retry": "Réessayer",
+
+  "lifecycleDialog.title": "{action}\u00a0: {name}",
+  "lifecycleDialog.needsApproval": "Un second opérateur doit l’approuver avant qu’il prenne effet.",
+  "lifecycleDialog.owes": "Ce compte doit {amount}. Réglez le solde avant de le clôturer.",
+  "lifecycleDialog.reason": "Motif",
+  "lifecycleDialog.selectReason": "Sélectionnez un motif",
+  "lifecycleDialog.note": "Note",
+  "lifecycleDialog.notePlaceholder": "Ce qui s’est passé et qui l’a demandé",
+  "lifecycleDialog.noteRequired": "Ajoutez une note expliquant ce changement",
+  "lifecycleDialog.noteTooLong": "La note ne doit pas dépasser 500 caractères",
+  "lifecycleDialog.sweepTo": "Virer {amount} vers",
+  "lifecycleDialog.selectAccount": "Sélectionnez un compte",
+  "lifecycleDialog.sweepRequired": "Choisissez où virer le solde restant",
+  "lifecycleDialog.noSweepTargets": "Ce client n’a pas d’autre compte de dépôt actif dans cette devise pour recevoir les fonds.",
+  "lifecycleDialog.cancel": "Annuler",
+  "lifecycleDialog.saving": "Enregistrement...",
+  "lifecycleDialog.submitForApproval": "Soumettre pour approbation",
+  "lifecycleDialog.stepUpReason": "Vérifiez votre identité pour demander ce changement.",
+  "lifecycleDialog.failed": "Impossible de mettre à jour le compte",
+  "": "",
+  "openAccount.nothingToFund": "Les comptes de type {type} s’ouvrent avec un solde nul, il n’y a donc rien à approvisionner.",
+  "": "",
+  "transfer.sourceInactive": "Le compte émetteur n’est pas actif",
+  "transfer.destinationInactive": "Le compte destinataire n’est pas actif",
+  "transfer.typeNotAllowed": "Les comptes de type {type} ne peuvent ni émettre ni recevoir de virements",
+
+  "accountType.CHECKING": "Compte courant",
+  "accountType.SAVINGS": "Épargne",
+  "accountType.CREDIT": "Crédit",
+  "accountType.LOAN": "Prêt",
+  "accountType.MORTGAGE": "Prêt immobilier",
+  "accountType.BROKERAGE": "Compte-titres",
+  "accountType.UNKNOWN": "Autre",
+  "accountTypeDescription.CHECKING": "Dépenses courantes avec carte de débit",
+  "accountTypeDescription.SAVINGS": "Compte rémunéré pour épargner",
+  "accountTypeDescription.CREDIT": "Ligne de crédit renouvelable, ouverte avec un solde nul",
+  "accountTypeDescription.LOAN": "Prêt à durée fixe remboursé par échéances",
+  "accountTypeDescription.MORTGAGE": "Prêt garanti par un bien immobilier",
+  "accountTypeDescription.BROKERAGE": "Compte d’investissement détenant des titres et des liquidités",
+  "accountTypeDescription.UNKNOWN": "Type de compte non reconnu par cette console",
+  "accountStatus.ACTIVE": "Actif",
+  "accountStatus.FROZEN": "Gelé",
+  "accountStatus.CLOSED": "Clôturé",
+  "accountStatus.PENDING": "En attente",
+  "accountStatus.UNKNOWN": "Inconnu",
+  "accountStatusDescription.ACTIVE": "Ouvert pour une activité normale",
+  "accountStatusDescription.FROZEN": "Débits et crédits bloqués jusqu’au dégel du compte",
+  "accountStatusDescription.CLOSED": "Aucune autre opération n’est possible",
+  "accountStatusDescription.PENDING": "En cours d’ouverture, pas encore disponible",
+  "accountStatusDescription.UNKNOWN": "Statut non reconnu par cette console",
+  "lifecycle.freeze": "Geler",
+  "lifecycle.unfreeze": "Dégeler",
+  "lifecycle.close": "Clôturer",
+  "lifecycle.reopen": "Rouvrir",
+  "lifecycleDescription.freeze": "Bloque tous les débits et crédits jusqu’au dégel du compte.",
+  "lifecycleDescription.unfreeze": "Rétablit l’activité normale du compte.",
+  "lifecycleDescription.close": "Arrête définitivement l’activité. Les fonds restants doivent être virés vers un autre compte.",
+  "lifecycleDescription.reopen": "Remet un compte clôturé en service.",
+  "lifecycleReason.SUSPECTED_FRAUD": "Soupçon de fraude",
+  "lifecycleReason.CUSTOMER_REQUEST": "Demande du client",
+  "lifecycleReason.LEGAL_HOLD": "Blocage judiciaire",
+  "lifecycleReason.COMPLIANCE_REVIEW": "Contrôle de conformité",
+  "lifecycleReason.INVESTIGATION_CLEARED": "Enquête close",
+  "lifecycleReason.HOLD_RELEASED": "Blocage judiciaire levé",
+  "lifecycleReason.DORMANT": "Compte inactif",
+  "lifecycleReason.FRAUD_CONFIRMED": "Fraude avérée",
+  "lifecycleReason.BANK_DECISION": "Décision de la banque",
+  "lifecycleReason.CLOSED_IN_ERROR": "Clôturé par erreur",
+  "transactionType.DEPOSIT": "Dépôt",
+  "transactionType.WITHDRAWAL": "Retrait",
+  "transactionType.TRANSFER_IN": "Virement reçu",
+  "transactionType.TRANSFER_OUT": "Virement émis",
+  "transactionType.PAYMENT": "Paiement",
+  "transactionType.FEE": "Frais",
+  "transactionType.INTEREST": "Intérêts",
+  "auditEvent.ACCOUNT_OPENED": "Compte ouvert",
+  "auditEvent.STATUS_CHANGE": "Changement de statut",
+  "auditEvent.TRANSFER": "Virement",
+  "auditEvent.RENAME": "Renommage",
+  "auditEvent.LOGIN": "Connexion",
+  "auditEvent.APPROVAL": "Approbation",
+  "auditEvent.UNKNOWN": "Autre",
+}
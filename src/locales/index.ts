@@ -0,0 +1,65 @@
+import type { Locale } from "date-fns"
+import {
+  ar as arDateLocale,
+  arSA,
+  enAU,
+  enCA,
+  enGB,
+  enIE,
+  enIN,
+  enNZ,
+  enUS,
+  es as esDateLocale,
+  fr as frDateLocale,
+  frCA,
+  frCH,
+} from "date-fns/locale"
+
+import { ar } from "./ar"
+import { en, type Catalog } from "./en"
+import { es } from "./es"
+import { fr } from "./fr"
+
+export type { Catalog, MessageKey } from "./en"
+
+export type Language = "en" | "es" | "fr" | "ar"
+
+export interface LanguageInfo {
+  /** The language's own name, so it can be found in the switcher by someone who reads it. */
+  label: string
+  dir: "ltr" | "rtl"
+  messages: Catalog
+  /** Used when the formatting locale has no entry in `REGIONAL_DATE_LOCALES`. */
+  dateLocale: Locale
+}
+
+export const LANGUAGE_REGISTRY: Record<Language, LanguageInfo> = {
+  en: { label: "English", dir: "ltr", messages: en, dateLocale: enUS },
+  es: { label: "Español", dir: "ltr", messages: es, dateLocale: esDateLocale },
+  fr: { label: "Français", dir: "ltr", messages: fr, dateLocale: frDateLocale },
+  ar: { label: "العربية", dir: "rtl", messages: ar, dateLocale: arDateLocale },
+}
+
+// date-fns locales for tenant regions whose dates differ from the language's
+// default, e.g. day-first `en-GB`.
+const REGIONAL_DATE_LOCALES: Record<string, Locale> = {
+  "en-AU": enAU,
+  "en-CA": enCA,
+  "en-GB": enGB,
+  "en-IE": enIE,
+  "en-IN": enIN,
+  "en-NZ": enNZ,
+  "fr-CA": frCA,
+  "fr-CH": frCH,
+  "ar-SA": arSA,
+}
+
+export function getDateLocale(language: Language, formattingLocale: string): Locale {
+  return REGIONAL_DATE_LOCALES[formattingLocale] ?? LANGUAGE_REGISTRY[language].dateLocale
+}
+
+export const LANGUAGES = Object.keys(LANGUAGE_REGISTRY) as Language[]
+
+export function isLanguage(value: string): value is Language {
+  return (LANGUAGES as string[]).includes(value)
+}
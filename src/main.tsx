@@ -1,10 +1,31 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
+import { ThemeProvider } from 'next-themes'
 import './index.css'
 import App from './App.tsx'
+import { getInitialTenantId, loadTenant } from './services/tenant'
+import { initLanguage } from './services/language'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
+const root = createRoot(document.getElementById('root')!)
+
+// Branding, colors and locale defaults come from the tenant, so nothing
+// renders until its configuration has loaded.
+loadTenant(getInitialTenantId()).then(
+  () => {
+    initLanguage()
+    root.render(
+      <StrictMode>
+        <ThemeProvider attribute="class" defaultTheme="system" enableSystem storageKey="bank-ui.theme" disableTransitionOnChange>
+          <BrowserRouter>
+            <App />
+          </BrowserRouter>
+        </ThemeProvider>
+      </StrictMode>,
+    )
+  },
+  (error: Error) => {
+    console.error(error)
+    root.render(<p style={{ padding: '2rem', fontFamily: 'sans-serif' }}>{error.message}</p>)
+  },
 )
@@ -0,0 +1,37 @@
+import { LifecycleAction } from '../lib/account-lifecycle';
+
+/** A dialog to open on an account once its owner's account list has loaded. */
+export interface AccountIntent {
+  userId: string;
+  accountId: string;
+  action: 'transfer' | LifecycleAction;
+}
+
+// The transfer and lifecycle dialogs belong to `AccountList`; the command
+// palette leaves an intent here and navigates, and the list picks it up.
+let intent: AccountIntent | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const getAccountIntent = (): AccountIntent | null => intent;
+
+export const requestAccountIntent = (next: AccountIntent) => {
+  intent = next;
+  notify();
+};
+
+export const clearAccountIntent = () => {
+  if (!intent) {
+    return;
+  }
+  intent = null;
+  notify();
+};
+
+export const subscribeAccountIntent = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,38 @@
+// Operators without `accounts.viewFullId` must not see full account IDs, and
+// that includes the address bar, browser history and referrers. Their account
+// URLs carry an opaque ref instead, which only this session can resolve.
+const REF_PREFIX = 'ref-';
+
+const refsByAccountId = new Map<string, string>();
+const accountIdsByRef = new Map<string, string>();
+
+const isAccountRef = (segment: string): boolean => segment.startsWith(REF_PREFIX);
+
+const toAccountRef = (accountId: string): string => {
+  let ref = refsByAccountId.get(accountId);
+  if (!ref) {
+    ref = `${REF_PREFIX}${crypto.randomUUID()}`;
+    refsByAccountId.set(accountId, ref);
+    accountIdsByRef.set(ref, accountId);
+  }
+  return ref;
+};
+
+/**
+ * The account ID behind a URL path segment. `null` for a ref issued before
+ * the current sign-in.
+ */
+export const resolveAccountSegment = (segment: string): string | null =>
+  isAccountRef(segment) ? accountIdsByRef.get(segment) ?? null : segment;
+
+/** The URL path segment for an account: its ID, or an opaque ref when the ID must stay hidden. */
+export const toAccountSegment = (accountId: string, revealId: boolean): string =>
+  revealId ? accountId : toAccountRef(accountId);
+
+export const accountPath = (userId: string, accountId: string, revealId: boolean): string =>
+  `/users/${encodeURIComponent(userId)}/accounts/${encodeURIComponent(toAccountSegment(accountId, revealId))}`;
+
+export const clearAccountRefs = () => {
+  refsByAccountId.clear();
+  accountIdsByRef.clear();
+};
@@ -1,29 +1,559 @@
-import axios from 'axios';
-import { User, BankAccount, PagedResponse } from '../types';
+import {
+  User,
+  BankAccount,
+  PagedResponse,
+  Transaction,
+  TransactionFilters,
+  TransferRequest,
+  TransferReceipt,
+  UserQueryParams,
+  BalancePoint,
+  DateRangeParams,
+  CreateAccountRequest,
+  LifecycleRequest,
+  LoginRequest,
+  AuthTokens,
+  MfaChallenge,
+  MfaVerifyRequest,
+  StepUpGrant,
+  StepUpOptions,
+  ApprovalDecision,
+  ApprovalRequest,
+  ApprovalStatus,
+  ApprovalSubmission,
+  AuditEvent,
+  AuditFilters,
+  AuditScope,
+} from '../types';
+import {
+  userSchema,
+  bankAccountSchema,
+  pagedResponseSchema,
+  transactionSchema,
+  transferReceiptSchema,
+  balancePointSchema,
+  fxRatesSchema,
+  authTokensSchema,
+  loginResponseSchema,
+  mfaChallengeSchema,
+  stepUpGrantSchema,
+  approvalRequestSchema,
+  auditEventSchema,
+} from '../types/schemas';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { z } from 'zod';
+import { FxRates, Money, toDecimalString } from '../lib/money';
+import { apiClient, authClient } from './client';
+import { ApiError, AuthenticationError, CancelledError, SchemaValidationError, toApiError } from './errors';
+import { clearAccountIntent } from './accountIntent';
+import { clearAccountRefs } from './accountRefs';
+import { clearQueryCache } from './queryCache';
+import { clearRecentEntities } from './recent';
+import { Session, SessionEndReason, clearSession, getSession, setSession } from './session';
+import { clearStepUp } from './stepUp';
+import { getTrustedDeviceToken, rememberDevice } from './trustedDevice';
 
-const API_BASE_URL = 'http://localhost:8080';
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
 
-const api = axios.create({
-  baseURL: API_BASE_URL,
-  timeout: 10000,
+export const queryKeys = {
+  users: (params: UserQueryParams) => ['users', params] as const,
+  accounts: (userId: string) => ['accounts', userId] as const,
+  account: (accountId: string) => ['account', accountId] as const,
+  accountSearch: (query: string) => ['accountSearch', query] as const,
+  balanceHistory: (accountId: string, range?: DateRangeParams) =>
+    (range ? ['balanceHistory', accountId, range] : ['balanceHistory', accountId]) as readonly unknown[],
+  transactions: (accountId: string, params?: { page: number; size: number; filters: TransactionFilters }) =>
+    (params ? ['transactions', accountId, params] : ['transactions', accountId]) as readonly unknown[],
+  fxRates: (base: string) => ['fxRates', base] as const,
+  auditEvents: (scope: AuditScope, params?: { page: number; size: number; filters: AuditFilters }) =>
+    (params ? ['auditEvents', scope, params] : ['auditEvents', scope]) as readonly unknown[],
+  approvals: (status?: ApprovalStatus) =>
+    (status ? ['approvals', status] : ['approvals']) as readonly unknown[],
+};
+
+const handleApiError = (error: unknown, logMessage: string, fallbackMessage: string): ApiError => {
+  const apiError = toApiError(error, fallbackMessage);
+  if (!(apiError instanceof CancelledError)) {
+    console.error(logMessage, error);
+  }
+  return apiError;
+};
+
+// Amounts go over the wire as exact decimal strings alongside their currency.
+const serializeMoney = (amount: Money) => ({
+  amount: toDecimalString(amount),
+  currency: amount.currency,
+});
+
+const parseResponse = <T extends z.ZodType>(schema: T, data: unknown, endpoint: string): z.infer<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({
+      path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+      message: issue.message,
+    }));
+    throw new SchemaValidationError(endpoint, issues, data);
+  }
+  return result.data;
+};
+
+const toSession = (tokens: AuthTokens): Session => ({
+  accessToken: tokens.accessToken,
+  refreshToken: tokens.refreshToken,
+  expiresAt: Date.now() + tokens.expiresIn * 1000,
+  operator: tokens.operator,
+});
+
+const startSession = (tokens: AuthTokens): Session => {
+  const session = toSession(tokens);
+  if (tokens.deviceToken) {
+    rememberDevice(tokens.deviceToken);
+  }
+  clearQueryCache();
+  setSession(session);
+  return session;
+};
+
+export type LoginResult =
+  | { status: 'signedIn'; session: Session }
+  | { status: 'mfaRequired'; challenge: MfaChallenge };
+
+/**
+ * Checks the password. Unless this device was remembered after an earlier
+ * MFA check, the server answers with a challenge for `verifyMfa`.
+ */
+export const login = async (credentials: LoginRequest): Promise<LoginResult> => {
+  try {
+    const response = await authClient.post<unknown>('/api/v1/auth/login', {
+      ...credentials,
+      deviceToken: getTrustedDeviceToken() ?? undefined,
+    });
+    const result = parseResponse(loginResponseSchema, response.data, 'POST /api/v1/auth/login');
+    if ('mfaRequired' in result) {
+      return { status: 'mfaRequired', challenge: result.challenge };
+    }
+    return { status: 'signedIn', session: startSession(result) };
+  } catch (error) {
+    throw handleApiError(error, 'Error signing in:', 'Failed to sign in');
+  }
+};
+
+export const verifyMfa = async (request: MfaVerifyRequest): Promise<Session> => {
+  try {
+    const response = await authClient.post<unknown>('/api/v1/auth/mfa/verify', request);
+    return startSession(parseResponse(authTokensSchema, response.data, 'POST /api/v1/auth/mfa/verify'));
+  } catch (error) {
+    throw handleApiError(error, 'Error verifying MFA code:', 'Failed to verify code');
+  }
+};
+
+/** Sends a fresh SMS code for a sign-in challenge. */
+export const resendMfaCode = async (challengeId: string): Promise<MfaChallenge> => {
+  try {
+    const response = await authClient.post<unknown>('/api/v1/auth/mfa/resend', { challengeId });
+    return parseResponse(mfaChallengeSchema, response.data, 'POST /api/v1/auth/mfa/resend');
+  } catch (error) {
+    throw handleApiError(error, 'Error resending MFA code:', 'Failed to resend code');
+  }
+};
+
+/** Like `resendMfaCode`, but for a step-up challenge, so it carries the operator's token. */
+export const resendStepUpCode = async (challengeId: string): Promise<MfaChallenge> => {
+  try {
+    const response = await apiClient.post<unknown>('/api/v1/auth/mfa/resend', { challengeId });
+    return parseResponse(mfaChallengeSchema, response.data, 'POST /api/v1/auth/mfa/resend');
+  } catch (error) {
+    throw handleApiError(error, 'Error resending step-up code:', 'Failed to resend code');
+  }
+};
+
+export const startStepUp = async (): Promise<MfaChallenge> => {
+  try {
+    const response = await apiClient.post<unknown>('/api/v1/auth/step-up');
+    return parseResponse(mfaChallengeSchema, response.data, 'POST /api/v1/auth/step-up');
+  } catch (error) {
+    throw handleApiError(error, 'Error starting step-up verification:', 'Failed to start verification');
+  }
+};
+
+export const verifyStepUp = async (challengeId: string, code: string): Promise<StepUpGrant> => {
+  try {
+    // A 401 here is a wrong code. Refreshing and replaying it would spend a
+    // second attempt of the lockout budget on the same code.
+    const response = await apiClient.post<unknown>(
+      '/api/v1/auth/step-up/verify',
+      { challengeId, code },
+      { skipAuthRefresh: true }
+    );
+    return parseResponse(stepUpGrantSchema, response.data, 'POST /api/v1/auth/step-up/verify');
+  } catch (error) {
+    throw handleApiError(error, 'Error verifying step-up code:', 'Failed to verify code');
+  }
+};
+
+export const endSession = (reason: SessionEndReason) => {
+  clearSession(reason);
+  clearStepUp();
+  clearQueryCache();
+  clearRecentEntities();
+  clearAccountIntent();
+  clearAccountRefs();
+};
+
+/** Revokes the refresh token server-side; the local session ends even if that fails. */
+export const logout = async (): Promise<void> => {
+  const session = getSession();
+  endSession('signedOut');
+  if (!session) {
+    return;
+  }
+  try {
+    await authClient.post('/api/v1/auth/logout', { refreshToken: session.refreshToken });
+  } catch (error) {
+    handleApiError(error, 'Error signing out:', 'Failed to sign out');
+  }
+};
+
+// Refresh a little before expiry so requests do not race the deadline.
+const REFRESH_MARGIN_MS = 30_000;
+
+let refreshInFlight: Promise<Session> | null = null;
+
+/**
+ * Exchanges the refresh token for a new session. Concurrent callers share one
+ * request; if it fails the session ends, which sends the operator to sign in.
+ */
+const refreshSession = (): Promise<Session> => {
+  if (!refreshInFlight) {
+    const session = getSession();
+    if (!session) {
+      return Promise.reject(new AuthenticationError('You are not signed in'));
+    }
+    refreshInFlight = authClient
+      .post<unknown>('/api/v1/auth/refresh', { refreshToken: session.refreshToken })
+      .then((response) => {
+        const next = toSession(parseResponse(authTokensSchema, response.data, 'POST /api/v1/auth/refresh'));
+        setSession(next);
+        return next;
+      })
+      .catch((error: unknown) => {
+        endSession('expired');
+        throw handleApiError(error, 'Error refreshing session:', 'Your session has expired');
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+};
+
+const retriedRequests = new WeakSet<InternalAxiosRequestConfig>();
+
+apiClient.interceptors.request.use(async (config) => {
+  let session = getSession();
+  if (session && session.expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+    session = await refreshSession();
+  }
+  if (session) {
+    config.headers.Authorization = `Bearer ${session.accessToken}`;
+  }
+  return config;
+});
+
+apiClient.interceptors.response.use(undefined, async (error: unknown) => {
+  const config = axios.isAxiosError(error) ? error.config : undefined;
+  const session = getSession();
+  if (
+    !axios.isAxiosError(error) ||
+    error.response?.status !== 401 ||
+    !config ||
+    !session ||
+    config.skipAuthRefresh ||
+    retriedRequests.has(config)
+  ) {
+    throw error;
+  }
+
+  retriedRequests.add(config);
+  // Another request may already have refreshed while this one was in flight.
+  const next =
+    config.headers.Authorization === `Bearer ${session.accessToken}` ? await refreshSession() : session;
+  config.headers.Authorization = `Bearer ${next.accessToken}`;
+  return apiClient.request(config);
 });
 
-export const fetchUsers = async (page: number = 0, size: number = 20): Promise<PagedResponse<User>> => {
+export const fetchUsers = async (
+  { page = 0, size = 20, search, sort }: Partial<UserQueryParams> = {},
+  { signal }: RequestOptions = {}
+): Promise<PagedResponse<User>> => {
   try {
-    const response = await api.get<PagedResponse<User>>(`/api/v1/users?page=${page}&size=${size}`);
-    return response.data;
+    const response = await apiClient.get<unknown>('/api/v1/users', {
+      params: { page, size, search: search || undefined, sort },
+      signal,
+    });
+    return parseResponse(pagedResponseSchema(userSchema), response.data, 'GET /api/v1/users');
   } catch (error) {
-    console.error('Error fetching users:', error);
-    throw new Error('Failed to fetch users');
+    throw handleApiError(error, 'Error fetching users:', 'Failed to fetch users');
   }
 };
 
-export const fetchAccountsByUserId = async (userId: string): Promise<BankAccount[]> => {
+export const fetchAccountsByUserId = async (
+  userId: string,
+  { signal }: RequestOptions = {}
+): Promise<BankAccount[]> => {
   try {
-    const response = await api.get<BankAccount[]>(`/api/v1/accounts/user/${userId}`);
-    return response.data;
+    const response = await apiClient.get<unknown>(`/api/v1/accounts/user/${userId}`, { signal });
+    return parseResponse(z.array(bankAccountSchema), response.data, 'GET /api/v1/accounts/user/:userId');
   } catch (error) {
-    console.error('Error fetching accounts:', error);
-    throw new Error('Failed to fetch accounts');
+    throw handleApiError(error, 'Error fetching accounts:', 'Failed to fetch accounts');
   }
 };
+
+/** Accounts whose ID or name matches `query`, best matches first. */
+export const searchAccounts = async (
+  query: string,
+  size: number,
+  { signal }: RequestOptions = {}
+): Promise<BankAccount[]> => {
+  try {
+    const response = await apiClient.get<unknown>('/api/v1/accounts/search', {
+      params: { q: query, size },
+      signal,
+    });
+    const page = parseResponse(pagedResponseSchema(bankAccountSchema), response.data, 'GET /api/v1/accounts/search');
+    return page.content;
+  } catch (error) {
+    throw handleApiError(error, 'Error searching accounts:', 'Failed to search accounts');
+  }
+};
+
+export const fetchAccountById = async (
+  accountId: string,
+  { signal }: RequestOptions = {}
+): Promise<BankAccount> => {
+  try {
+    const response = await apiClient.get<unknown>(`/api/v1/accounts/${accountId}`, { signal });
+    return parseResponse(bankAccountSchema, response.data, 'GET /api/v1/accounts/:accountId');
+  } catch (error) {
+    throw handleApiError(error, 'Error fetching account:', 'Failed to fetch account');
+  }
+};
+
+const STEP_UP_HEADER = 'X-Step-Up-Token';
+
+// Only a funded opening moves money, so the step-up token is required just
+// when `initialDeposit` is set.
+export const createAccount = async (
+  account: CreateAccountRequest,
+  { stepUpToken }: Partial<StepUpOptions> = {}
+): Promise<BankAccount> => {
+  try {
+    const { initialDeposit, ...rest } = account;
+    const response = await apiClient.post<unknown>(
+      '/api/v1/accounts',
+      {
+        ...rest,
+        initialDeposit: initialDeposit && {
+          sourceAccountId: initialDeposit.sourceAccountId,
+          ...serializeMoney(initialDeposit.amount),
+        },
+      },
+      stepUpToken ? { headers: { [STEP_UP_HEADER]: stepUpToken } } : undefined
+    );
+    return parseResponse(bankAccountSchema, response.data, 'POST /api/v1/accounts');
+  } catch (error) {
+    throw handleApiError(error, 'Error creating account:', 'Failed to create account');
+  }
+};
+
+// Unfreezing, closing and reopening go through `submitForApproval`; the
+// server applies them once a second operator approves.
+export const freezeAccount = async (accountId: string, request: LifecycleRequest): Promise<BankAccount> => {
+  try {
+    const response = await apiClient.post<unknown>(`/api/v1/accounts/${accountId}/freeze`, request);
+    return parseResponse(bankAccountSchema, response.data, 'POST /api/v1/accounts/:accountId/freeze');
+  } catch (error) {
+    throw handleApiError(error, 'Error freezing account:', 'Failed to freeze account');
+  }
+};
+
+export const fetchBalanceHistory = async (
+  accountId: string,
+  range: DateRangeParams,
+  { signal }: RequestOptions = {}
+): Promise<BalancePoint[]> => {
+  try {
+    const response = await apiClient.get<unknown>(`/api/v1/accounts/${accountId}/balance-history`, {
+      params: range,
+      signal,
+    });
+    return parseResponse(
+      z.array(balancePointSchema),
+      response.data,
+      'GET /api/v1/accounts/:accountId/balance-history'
+    );
+  } catch (error) {
+    throw handleApiError(error, 'Error fetching balance history:', 'Failed to fetch balance history');
+  }
+};
+
+export const fetchTransactionsByAccountId = async (
+  accountId: string,
+  page: number = 0,
+  size: number = 20,
+  filters: TransactionFilters = {},
+  { signal }: RequestOptions = {}
+): Promise<PagedResponse<Transaction>> => {
+  try {
+    const response = await apiClient.get<unknown>(`/api/v1/accounts/${accountId}/transactions`, {
+      params: { page, size, ...filters },
+      signal,
+    });
+    return parseResponse(
+      pagedResponseSchema(transactionSchema),
+      response.data,
+      'GET /api/v1/accounts/:accountId/transactions'
+    );
+  } catch (error) {
+    throw handleApiError(error, 'Error fetching transactions:', 'Failed to fetch transactions');
+  }
+};
+
+export const createTransfer = async (
+  transfer: TransferRequest,
+  { stepUpToken }: StepUpOptions
+): Promise<TransferReceipt> => {
+  try {
+    const response = await apiClient.post<unknown>(
+      '/api/v1/transfers',
+      { ...transfer, ...serializeMoney(transfer.amount) },
+      { headers: { [STEP_UP_HEADER]: stepUpToken } }
+    );
+    return parseResponse(transferReceiptSchema, response.data, 'POST /api/v1/transfers');
+  } catch (error) {
+    throw handleApiError(error, 'Error creating transfer:', 'Failed to create transfer');
+  }
+};
+
+export const fetchFxRates = async (base: string, { signal }: RequestOptions = {}): Promise<FxRates> => {
+  try {
+    const response = await apiClient.get<unknown>('/api/v1/fx-rates', { params: { base }, signal });
+    return parseResponse(fxRatesSchema, response.data, 'GET /api/v1/fx-rates');
+  } catch (error) {
+    throw handleApiError(error, 'Error fetching FX rates:', 'Failed to fetch FX rates');
+  }
+};
+
+const serializeSubmission = (submission: ApprovalSubmission) =>
+  submission.kind === 'TRANSFER'
+    ? { ...submission, transfer: { ...submission.transfer, ...serializeMoney(submission.transfer.amount) } }
+    : submission;
+
+/** Submits a high-risk change for a second operator to approve; nothing changes until they do. */
+export const submitForApproval = async (
+  submission: ApprovalSubmission,
+  { stepUpToken }: StepUpOptions
+): Promise<ApprovalRequest> => {
+  try {
+    const response = await apiClient.post<unknown>('/api/v1/approvals', serializeSubmission(submission), {
+      headers: { [STEP_UP_HEADER]: stepUpToken },
+    });
+    return parseResponse(approvalRequestSchema, response.data, 'POST /api/v1/approvals');
+  } catch (error) {
+    throw handleApiError(error, 'Error submitting approval request:', 'Failed to submit for approval');
+  }
+};
+
+export const fetchApprovals = async (
+  status: ApprovalStatus | undefined,
+  { signal }: RequestOptions = {}
+): Promise<ApprovalRequest[]> => {
+  try {
+    const response = await apiClient.get<unknown>('/api/v1/approvals', { params: { status }, signal });
+    return parseResponse(z.array(approvalRequestSchema), response.data, 'GET /api/v1/approvals');
+  } catch (error) {
+    throw handleApiError(error, 'Error fetching approvals:', 'Failed to fetch approvals');
+  }
+};
+
+/**
+ * Approves (which applies the change) or rejects a pending request. The server
+ * refuses decisions by the request's initiator.
+ */
+export const decideApproval = async (
+  approvalId: string,
+  decision: ApprovalDecision,
+  { stepUpToken }: StepUpOptions
+): Promise<ApprovalRequest> => {
+  try {
+    const response = await apiClient.post<unknown>(`/api/v1/approvals/${approvalId}/decision`, decision, {
+      headers: { [STEP_UP_HEADER]: stepUpToken },
+    });
+    return parseResponse(approvalRequestSchema, response.data, 'POST /api/v1/approvals/:approvalId/decision');
+  } catch (error) {
+    throw handleApiError(error, 'Error recording approval decision:', 'Failed to record decision');
+  }
+};
+
+const auditEventsPath = (scope: AuditScope): string =>
+  scope.type === 'user'
+    ? `/api/v1/users/${scope.userId}/audit-events`
+    : `/api/v1/accounts/${scope.accountId}/audit-events`;
+
+export const fetchAuditEvents = async (
+  scope: AuditScope,
+  page: number = 0,
+  size: number = 20,
+  filters: AuditFilters = {},
+  { signal }: RequestOptions = {}
+): Promise<PagedResponse<AuditEvent>> => {
+  try {
+    const response = await apiClient.get<unknown>(auditEventsPath(scope), {
+      params: { page, size, ...filters },
+      signal,
+    });
+    return parseResponse(
+      pagedResponseSchema(auditEventSchema),
+      response.data,
+      `GET /api/v1/${scope.type === 'user' ? 'users/:userId' : 'accounts/:accountId'}/audit-events`
+    );
+  } catch (error) {
+    throw handleApiError(error, 'Error fetching audit events:', 'Failed to fetch audit events');
+  }
+};
+
+const EXPORT_PAGE_SIZE = 500;
+export const EXPORT_ROW_LIMIT = 10_000;
+
+/**
+ * Reads a paged endpoint to the end for an export, stopping after
+ * `EXPORT_ROW_LIMIT` items; compare with `totalElements` to tell.
+ */
+const fetchAllPages = async <T>(
+  fetchPage: (page: number, size: number) => Promise<PagedResponse<T>>
+): Promise<{ items: T[]; totalElements: number }> => {
+  const items: T[] = [];
+  for (let page = 0; ; page += 1) {
+    const result = await fetchPage(page, EXPORT_PAGE_SIZE);
+    items.push(...result.content);
+    if (result.last || result.content.length === 0 || items.length >= EXPORT_ROW_LIMIT) {
+      return { items: items.slice(0, EXPORT_ROW_LIMIT), totalElements: result.totalElements };
+    }
+  }
+};
+
+export const fetchAllAuditEvents = (
+  scope: AuditScope,
+  filters: AuditFilters,
+  { signal }: RequestOptions = {}
+): Promise<{ items: AuditEvent[]; totalElements: number }> =>
+  fetchAllPages((page, size) => fetchAuditEvents(scope, page, size, filters, { signal }));
+
+export const fetchAllTransactions = (
+  accountId: string,
+  range: DateRangeParams,
+  { signal }: RequestOptions = {}
+): Promise<{ items: Transaction[]; totalElements: number }> =>
+  fetchAllPages((page, size) => fetchTransactionsByAccountId(accountId, page, size, range, { signal }));
@@ -0,0 +1,30 @@
+import axios from 'axios';
+
+const DEFAULT_BASE_URL = 'http://localhost:8080';
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const parseTimeout = (value: string | undefined): number => {
+  const timeout = Number(value);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS;
+};
+
+export const apiConfig = {
+  baseURL: import.meta.env.VITE_API_BASE_URL || DEFAULT_BASE_URL,
+  timeout: parseTimeout(import.meta.env.VITE_API_TIMEOUT_MS),
+};
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * Lets a 401 reach the caller as-is instead of refreshing the session and
+     * retrying. For requests where 401 means "wrong answer", not "stale token".
+     */
+    skipAuthRefresh?: boolean;
+  }
+}
+
+export const apiClient = axios.create(apiConfig);
+
+// Sign-in and token refresh go through their own instance so the session
+// interceptors on `apiClient` never see (or retry) them.
+export const authClient = axios.create(apiConfig);
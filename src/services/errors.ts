@@ -0,0 +1,195 @@
+import axios from 'axios';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface ApiErrorOptions {
+  status?: number;
+  body?: unknown;
+}
+
+interface ApiErrorBody {
+  message?: string;
+  error?: string;
+  errors?: Array<{ field?: string; message?: string; defaultMessage?: string }>;
+  fieldErrors?: Record<string, string>;
+}
+
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly body?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.body = options.body;
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the server. Check your connection and try again.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = 'The server took too long to respond.') {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class CancelledError extends ApiError {
+  constructor(message = 'The request was cancelled.') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, fieldErrors: FieldError[], options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class AuthenticationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class SchemaValidationError extends ApiError {
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[], body?: unknown) {
+    const summary = issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+    super(`Unexpected response from ${endpoint} (${summary})`, { body });
+    this.name = 'SchemaValidationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+const isErrorBody = (body: unknown): body is ApiErrorBody =>
+  typeof body === 'object' && body !== null;
+
+const extractFieldErrors = (body: unknown): FieldError[] => {
+  if (!isErrorBody(body)) {
+    return [];
+  }
+
+  const fieldErrors: FieldError[] = [];
+  if (Array.isArray(body.errors)) {
+    for (const entry of body.errors) {
+      if (entry && entry.field) {
+        fieldErrors.push({
+          field: entry.field,
+          message: entry.message ?? entry.defaultMessage ?? 'Invalid value',
+        });
+      }
+    }
+  }
+  if (body.fieldErrors && typeof body.fieldErrors === 'object') {
+    for (const [field, message] of Object.entries(body.fieldErrors)) {
+      fieldErrors.push({ field, message: String(message) });
+    }
+  }
+  return fieldErrors;
+};
+
+const extractMessage = (body: unknown, fallback: string): string => {
+  if (isErrorBody(body)) {
+    if (typeof body.message === 'string' && body.message) {
+      return body.message;
+    }
+    if (typeof body.error === 'string' && body.error) {
+      return body.error;
+    }
+  }
+  return fallback;
+};
+
+export const toApiError = (error: unknown, fallbackMessage: string): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new CancelledError();
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError(error instanceof Error ? error.message : fallbackMessage);
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new TimeoutError();
+  }
+
+  if (!error.response) {
+    return new NetworkError();
+  }
+
+  const { status, data } = error.response;
+  const message = extractMessage(data, fallbackMessage);
+  const options = { status, body: data };
+
+  if (status === 401) {
+    return new AuthenticationError(message, options);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, options);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, extractFieldErrors(data), options);
+  }
+  if (status >= 500) {
+    return new ServerError(message, options);
+  }
+  return new ApiError(message, options);
+};
@@ -0,0 +1,82 @@
+import { setDefaultOptions } from 'date-fns';
+import { LANGUAGE_REGISTRY, Language, MessageKey, getDateLocale, isLanguage } from '../locales';
+import { MessageParams, formatMessage } from '../lib/i18n';
+import { setDefaultLocale } from '../lib/money';
+import { getTenant, subscribeTenant } from './tenant';
+
+const STORAGE_KEY = 'bank-ui.language';
+
+let currentLanguage: Language = 'en';
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const primarySubtag = (locale: string) => locale.split('-')[0].toLowerCase();
+
+export const getLanguage = (): Language => currentLanguage;
+
+/**
+ * The locale for numbers, currency and dates. It is the tenant's locale when
+ * that is in the chosen language, so an en-GB bank keeps day-first dates in
+ * English, and otherwise the bare language.
+ */
+export const getFormattingLocale = (): string => {
+  const tenantLocale = getTenant().locale;
+  return primarySubtag(tenantLocale) === currentLanguage ? tenantLocale : currentLanguage;
+};
+
+// Formatting that does not go through React (`formatMoney`, date-fns
+// `format`) reads these process-wide defaults.
+const applyLanguage = () => {
+  const { dir } = LANGUAGE_REGISTRY[currentLanguage];
+  const formattingLocale = getFormattingLocale();
+  setDefaultLocale(formattingLocale);
+  setDefaultOptions({ locale: getDateLocale(currentLanguage, formattingLocale) });
+  document.documentElement.lang = currentLanguage;
+  document.documentElement.dir = dir;
+};
+
+const readStoredLanguage = (): Language | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && isLanguage(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Picks the starting language: the operator's last choice, then the tenant's
+ * locale, then the browser's, then English. Call once the tenant has loaded.
+ */
+export const initLanguage = () => {
+  const candidates = [getTenant().locale, ...navigator.languages].map(primarySubtag);
+  currentLanguage = readStoredLanguage() ?? candidates.find(isLanguage) ?? 'en';
+  applyLanguage();
+  subscribeTenant(() => {
+    applyLanguage();
+    notify();
+  });
+};
+
+export const setLanguage = (language: Language) => {
+  currentLanguage = language;
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // Private browsing can refuse storage; the choice still applies until reload.
+  }
+  applyLanguage();
+  notify();
+};
+
+/** `t` for code outside React, such as validation messages built at module level. */
+export const translate = (key: MessageKey, params?: MessageParams): string =>
+  formatMessage(LANGUAGE_REGISTRY[currentLanguage].messages[key], getFormattingLocale(), params);
+
+export const subscribeLanguage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,203 @@
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+export interface QueryFetcherContext {
+  signal: AbortSignal;
+}
+
+export type QueryFetcher<T> = (context: QueryFetcherContext) => Promise<T>;
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  listeners: Set<() => void>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export const DEFAULT_STALE_TIME_MS = 30_000;
+
+/** How long a query nobody is subscribed to stays cached before it is dropped. */
+export const GC_TIME_MS = 5 * 60_000;
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+const entries = new Map<string, QueryEntry<unknown>>();
+
+export const hashQueryKey = (key: QueryKey): string => JSON.stringify(key);
+
+/**
+ * Drops `entry` once it has gone `GC_TIME_MS` without subscribers or a
+ * request in flight, so keys for views the operator has left (old pages,
+ * filters, accounts) do not pile up for the whole session.
+ */
+const scheduleGc = (entry: QueryEntry<unknown>) => {
+  if (entry.gcTimer) {
+    clearTimeout(entry.gcTimer);
+  }
+  entry.gcTimer = setTimeout(() => {
+    entry.gcTimer = null;
+    const hash = hashQueryKey(entry.key);
+    if (entry.listeners.size === 0 && !entry.promise && entries.get(hash) === entry) {
+      entries.delete(hash);
+    }
+  }, GC_TIME_MS);
+};
+
+const cancelGc = (entry: QueryEntry<unknown>) => {
+  if (entry.gcTimer) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = null;
+  }
+};
+
+// A request that outlived its subscribers kept the entry alive; start its clock now.
+const collectIfUnused = (entry: QueryEntry<unknown>) => {
+  if (entry.listeners.size === 0) {
+    scheduleGc(entry);
+  }
+};
+
+const getEntry = <T>(key: QueryKey): QueryEntry<T> => {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash) as QueryEntry<T> | undefined;
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, promise: null, controller: null, listeners: new Set(), gcTimer: null };
+    entries.set(hash, entry as QueryEntry<unknown>);
+    // Entries filled without a subscriber (prefetches, optimistic updates)
+    // are collected too.
+    scheduleGc(entry as QueryEntry<unknown>);
+  }
+  return entry;
+};
+
+const setState = <T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+};
+
+export const getQueryState = <T>(key: QueryKey): QueryState<T> => {
+  const entry = entries.get(hashQueryKey(key)) as QueryEntry<T> | undefined;
+  return entry ? entry.state : EMPTY_STATE;
+};
+
+/**
+ * Subscribes to a query. When the last subscriber leaves while a request is
+ * in flight, that request is aborted so a late response can never be applied
+ * on behalf of a view that has moved on, and the entry is scheduled for
+ * garbage collection.
+ */
+export const subscribeQuery = (key: QueryKey, listener: () => void): (() => void) => {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  cancelGc(entry);
+  return () => {
+    entry.listeners.delete(listener);
+    // Deferred so a synchronous re-subscribe (e.g. StrictMode) keeps the request.
+    setTimeout(() => {
+      if (entry.listeners.size === 0) {
+        entry.controller?.abort();
+        scheduleGc(entry);
+      }
+    }, 0);
+  };
+};
+
+export const isQueryStale = (key: QueryKey, staleTime: number = DEFAULT_STALE_TIME_MS): boolean => {
+  const state = getQueryState(key);
+  return state.isInvalidated || state.updatedAt === 0 || Date.now() - state.updatedAt > staleTime;
+};
+
+/**
+ * Fetches a query through the cache. Concurrent calls for the same key share a
+ * single in-flight request; fresh data is returned without hitting the network
+ * unless `force` is set.
+ */
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  options: { staleTime?: number; force?: boolean } = {}
+): Promise<T> => {
+  const entry = getEntry<T>(key);
+
+  if (entry.promise) {
+    return entry.promise;
+  }
+  if (!options.force && entry.state.data !== undefined && !isQueryStale(key, options.staleTime)) {
+    return Promise.resolve(entry.state.data);
+  }
+
+  const controller = new AbortController();
+  const promise = fetcher({ signal: controller.signal }).then(
+    (data) => {
+      entry.promise = null;
+      entry.controller = null;
+      setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+      collectIfUnused(entry);
+      return data;
+    },
+    (error: unknown) => {
+      entry.promise = null;
+      entry.controller = null;
+      // An aborted request leaves the previous data and error untouched.
+      setState(entry, controller.signal.aborted ? { isFetching: false } : { error, isFetching: false });
+      collectIfUnused(entry);
+      throw error;
+    }
+  );
+
+  entry.promise = promise;
+  entry.controller = controller;
+  setState(entry, { isFetching: true, isInvalidated: false });
+  return promise;
+};
+
+export const setQueryData = <T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) => {
+  const entry = getEntry<T>(key);
+  const data =
+    typeof updater === 'function'
+      ? (updater as (previous: T | undefined) => T)(entry.state.data)
+      : updater;
+  setState(entry, { data, error: null, updatedAt: Date.now() });
+};
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+
+/**
+ * Marks every query whose key starts with `prefix` as stale. Mounted
+ * `useQuery` hooks revalidate immediately; others refetch on next use.
+ */
+export const invalidateQueries = (prefix: QueryKey = []) => {
+  entries.forEach((entry) => {
+    if (matchesPrefix(entry.key, prefix)) {
+      setState(entry, { isInvalidated: true });
+    }
+  });
+};
+
+/**
+ * Drops every cached query and aborts requests still in flight. Used when the
+ * session ends so one operator's data is never shown to the next.
+ */
+export const clearQueryCache = () => {
+  entries.forEach((entry) => {
+    entry.controller?.abort();
+    cancelGc(entry);
+  });
+  entries.clear();
+};
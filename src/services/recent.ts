@@ -0,0 +1,43 @@
+import { BankAccount } from '../types';
+
+export type RecentEntity =
+  | { type: 'user'; userId: string; viewedAt: number }
+  | { type: 'account'; account: BankAccount; viewedAt: number };
+
+const MAX_RECENT = 8;
+
+// Kept in memory like the session itself, so one operator's history never
+// outlives their sign-in on a shared branch workstation.
+let recent: RecentEntity[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const entityKey = (entity: RecentEntity) =>
+  entity.type === 'user' ? `user:${entity.userId}` : `account:${entity.account.accountId}`;
+
+/** Most recently viewed first. */
+export const getRecentEntities = (): RecentEntity[] => recent;
+
+const record = (entity: RecentEntity) => {
+  const key = entityKey(entity);
+  recent = [entity, ...recent.filter((existing) => entityKey(existing) !== key)].slice(0, MAX_RECENT);
+  notify();
+};
+
+export const recordRecentUser = (userId: string) => record({ type: 'user', userId, viewedAt: Date.now() });
+
+export const recordRecentAccount = (account: BankAccount) =>
+  record({ type: 'account', account, viewedAt: Date.now() });
+
+export const clearRecentEntities = () => {
+  recent = [];
+  notify();
+};
+
+export const subscribeRecentEntities = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
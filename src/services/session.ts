@@ -0,0 +1,46 @@
+import { Operator } from '../types';
+
+export interface Session {
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch milliseconds after which the access token is no longer accepted. */
+  expiresAt: number;
+  operator: Operator;
+}
+
+export type SessionEndReason = 'signedOut' | 'expired' | 'locked';
+
+// Tokens live only in module memory: nothing is written to localStorage or
+// cookies, so a reload or a new tab means signing in again.
+let currentSession: Session | null = null;
+let endReason: SessionEndReason | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const getSession = (): Session | null => currentSession;
+
+/** Why the last session ended, or `null` if none has ended since sign-in. */
+export const getSessionEndReason = (): SessionEndReason | null => endReason;
+
+export const setSession = (session: Session) => {
+  currentSession = session;
+  endReason = null;
+  notify();
+};
+
+export const clearSession = (reason: SessionEndReason) => {
+  if (!currentSession) {
+    return;
+  }
+  currentSession = null;
+  endReason = reason;
+  notify();
+};
+
+export const subscribeSession = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
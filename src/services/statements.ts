@@ -0,0 +1,100 @@
+import { format } from 'date-fns';
+import { BankAccount, DateRangeParams } from '../types';
+import type { Money } from '../lib/money';
+import { StatementFile, StatementFormat, prepareStatementTransactions } from '../lib/statement';
+import type { StatementJob, StatementJobResult } from '../workers/statement.worker';
+import { EXPORT_ROW_LIMIT, RequestOptions, fetchAllTransactions, fetchBalanceHistory } from './api';
+import { ApiError, CancelledError } from './errors';
+import { getTenant } from './tenant';
+
+// Formatting thousands of rows (and the HTML for printing) is done off the
+// main thread so the page stays responsive. Each job gets its own worker.
+const runStatementJob = (job: StatementJob, signal?: AbortSignal): Promise<StatementFile> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/statement.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new CancelledError());
+    };
+
+    worker.onmessage = (event: MessageEvent<StatementJobResult>) => {
+      finish();
+      if (event.data.ok) {
+        resolve(event.data.file);
+      } else {
+        reject(new ApiError(event.data.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new ApiError(event.message || 'Failed to build statement'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage(job);
+  });
+
+/**
+ * The balance throughout a period with no transactions: the last balance
+ * recorded on or before its end. Today's balance only stands in when the
+ * period runs to today, since later activity would otherwise leak into it.
+ */
+const getQuietPeriodBalance = async (
+  account: BankAccount,
+  range: DateRangeParams,
+  signal?: AbortSignal
+): Promise<Money> => {
+  if (range.to >= format(new Date(), 'yyyy-MM-dd')) {
+    return account.balance;
+  }
+
+  // Reach back to the opening date so a balance set before the period is found.
+  const from = account.openedAt ? account.openedAt.slice(0, 10) : range.from;
+  const history = await fetchBalanceHistory(account.accountId, { from, to: range.to }, { signal });
+  const recorded = history.filter((point) => point.date.slice(0, 10) <= range.to);
+  if (recorded.length === 0) {
+    throw new ApiError(
+      `No balance is recorded for this account on or before ${range.to}, so the statement cannot show its opening and closing balances. Choose a range with activity or one that runs to today.`
+    );
+  }
+  return recorded[recorded.length - 1].balance;
+};
+
+/**
+ * Fetches every transaction in `range` and renders a statement in the
+ * requested format. Periods with more than `EXPORT_ROW_LIMIT` transactions
+ * are refused rather than silently truncated.
+ */
+export const generateStatement = async (
+  account: BankAccount,
+  range: DateRangeParams,
+  format: StatementFormat,
+  { signal }: RequestOptions = {}
+): Promise<StatementFile> => {
+  const { items, totalElements } = await fetchAllTransactions(account.accountId, range, { signal });
+  if (totalElements > items.length) {
+    throw new ApiError(
+      `This period has ${totalElements.toLocaleString()} transactions; statements are limited to ${EXPORT_ROW_LIMIT.toLocaleString()}. Choose a shorter range.`
+    );
+  }
+
+  const quietPeriodBalance = items.length === 0 ? await getQuietPeriodBalance(account, range, signal) : account.balance;
+
+  return runStatementJob(
+    {
+      format,
+      data: {
+        account,
+        from: range.from,
+        to: range.to,
+        ...prepareStatementTransactions(items, quietPeriodBalance),
+        generatedAt: new Date().toISOString(),
+        tenant: getTenant(),
+      },
+    },
+    signal
+  );
+};
@@ -0,0 +1,70 @@
+import { CancelledError } from './errors';
+
+interface StepUpGrant {
+  token: string;
+  expiresAt: number;
+}
+
+export interface PendingStepUp {
+  /** Shown to the operator, e.g. "Verify your identity to send this transfer". */
+  reason: string;
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// Leave enough time for the guarded request itself to reach the server.
+const GRANT_MARGIN_MS = 15_000;
+
+let grant: StepUpGrant | null = null;
+let pending: PendingStepUp | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const getPendingStepUp = (): PendingStepUp | null => pending;
+
+export const subscribeStepUp = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Resolves with a step-up token for a sensitive action. A recent grant is
+ * reused; otherwise the mounted `StepUpDialog` asks for a second factor. The
+ * promise rejects with a `CancelledError` if the operator backs out.
+ */
+export const requestStepUp = (reason: string): Promise<string> => {
+  if (grant && grant.expiresAt - Date.now() > GRANT_MARGIN_MS) {
+    return Promise.resolve(grant.token);
+  }
+
+  pending?.reject(new CancelledError('Verification was superseded by another request.'));
+  return new Promise<string>((resolve, reject) => {
+    pending = { reason, resolve, reject };
+    notify();
+  });
+};
+
+export const completeStepUp = (token: string, expiresInSeconds: number) => {
+  grant = { token, expiresAt: Date.now() + expiresInSeconds * 1000 };
+  pending?.resolve(token);
+  pending = null;
+  notify();
+};
+
+export const cancelStepUp = (error: unknown = new CancelledError('Verification was cancelled.')) => {
+  if (!pending) {
+    return;
+  }
+  pending.reject(error);
+  pending = null;
+  notify();
+};
+
+/** Forgets any grant and abandons a pending request, e.g. when the session ends. */
+export const clearStepUp = () => {
+  grant = null;
+  cancelStepUp();
+};
@@ -0,0 +1,96 @@
+import { TenantConfig } from '../types';
+import { tenantConfigSchema } from '../types/schemas';
+import { hexToHslTriplet, prefersDarkText } from '../lib/color';
+
+// Each tenant's JSON becomes its own chunk, so only the active one is downloaded.
+const tenantLoaders = import.meta.glob<unknown>('../tenants/*.json', { import: 'default' });
+
+const loaderPathToId = (path: string) => path.replace(/^.*\/([^/]+)\.json$/, '$1');
+
+const loadersById = new Map(
+  Object.entries(tenantLoaders).map(([path, loader]) => [loaderPathToId(path), loader])
+);
+
+export const TENANT_IDS = Array.from(loadersById.keys()).sort();
+
+export const DEFAULT_TENANT_ID = import.meta.env.VITE_TENANT_ID || 'cognition-one';
+
+const PREVIEW_STORAGE_KEY = 'bank-ui.tenant-preview';
+const THEME_STYLE_ID = 'tenant-theme';
+
+const DARK_TEXT = '240 10% 3.9%';
+const LIGHT_TEXT = '0 0% 98%';
+
+let currentTenant: TenantConfig | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/** The active tenant. Only valid once `loadTenant` has resolved, which `main.tsx` waits for. */
+export const getTenant = (): TenantConfig => {
+  if (!currentTenant) {
+    throw new Error('Tenant configuration has not been loaded');
+  }
+  return currentTenant;
+};
+
+const colorTokens = (hex: string) =>
+  `--primary: ${hexToHslTriplet(hex)}; --primary-foreground: ${prefersDarkText(hex) ? DARK_TEXT : LIGHT_TEXT}; --ring: ${hexToHslTriplet(hex)};`;
+
+// `html:root` and `html.dark` outrank the `:root` and `.dark` rules in
+// index.css regardless of stylesheet order.
+const applyTenantTheme = (tenant: TenantConfig) => {
+  let style = document.getElementById(THEME_STYLE_ID);
+  if (!style) {
+    style = document.createElement('style');
+    style.id = THEME_STYLE_ID;
+    document.head.appendChild(style);
+  }
+  const { primary, primaryDark = primary } = tenant.colors;
+  style.textContent = `html:root { ${colorTokens(primary)} } html.dark { ${colorTokens(primaryDark)} }`;
+  document.title = tenant.bankName;
+};
+
+export const loadTenant = async (tenantId: string): Promise<TenantConfig> => {
+  const loader = loadersById.get(tenantId);
+  if (!loader) {
+    throw new Error(`Unknown tenant "${tenantId}". Expected one of: ${TENANT_IDS.join(', ')}`);
+  }
+  const result = tenantConfigSchema.safeParse(await loader());
+  if (!result.success) {
+    throw new Error(`Invalid configuration for tenant "${tenantId}": ${result.error.message}`);
+  }
+
+  currentTenant = result.data;
+  applyTenantTheme(currentTenant);
+  notify();
+  return currentTenant;
+};
+
+/** The tenant to start with: the deployment's, unless a dev preview is saved. */
+export const getInitialTenantId = (): string => {
+  if (import.meta.env.DEV) {
+    const preview = localStorage.getItem(PREVIEW_STORAGE_KEY);
+    if (preview && loadersById.has(preview)) {
+      return preview;
+    }
+  }
+  return DEFAULT_TENANT_ID;
+};
+
+/** Dev only: switches tenant in place and remembers the choice across reloads. */
+export const previewTenant = async (tenantId: string): Promise<void> => {
+  await loadTenant(tenantId);
+  if (tenantId === DEFAULT_TENANT_ID) {
+    localStorage.removeItem(PREVIEW_STORAGE_KEY);
+  } else {
+    localStorage.setItem(PREVIEW_STORAGE_KEY, tenantId);
+  }
+};
+
+export const subscribeTenant = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,58 @@
+const STORAGE_KEY = 'bank-ui.trusted-device';
+
+export const REMEMBER_DEVICE_DAYS = 30;
+
+interface TrustedDevice {
+  token: string;
+  expiresAt: number;
+}
+
+// Unlike session tokens, the device token has to survive a reload, so it is
+// the one credential kept in localStorage. On its own it only lets the server
+// skip the second factor; a password is still required.
+const readDevice = (): TrustedDevice | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+    const device = JSON.parse(raw) as Partial<TrustedDevice>;
+    if (typeof device.token !== 'string' || typeof device.expiresAt !== 'number') {
+      return null;
+    }
+    return { token: device.token, expiresAt: device.expiresAt };
+  } catch {
+    return null;
+  }
+};
+
+export const getTrustedDeviceToken = (): string | null => {
+  const device = readDevice();
+  if (device && device.expiresAt > Date.now()) {
+    return device.token;
+  }
+  if (device) {
+    forgetDevice();
+  }
+  return null;
+};
+
+export const rememberDevice = (token: string) => {
+  const device: TrustedDevice = {
+    token,
+    expiresAt: Date.now() + REMEMBER_DEVICE_DAYS * 24 * 60 * 60 * 1000,
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(device));
+  } catch {
+    // Storage can be unavailable (private mode, quota); MFA is simply asked again.
+  }
+};
+
+export const forgetDevice = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored to remove.
+  }
+};
@@ -1,22 +1,163 @@
-export interface User {
-  userId: string;
+import { z } from 'zod';
+import {
+  userSchema,
+  accountTypeSchema,
+  accountStatusSchema,
+  bankAccountSchema,
+  pageMetadataSchema,
+  transactionTypeSchema,
+  transactionSchema,
+  transferReceiptSchema,
+  balancePointSchema,
+  operatorRoleSchema,
+  operatorSchema,
+  authTokensSchema,
+  mfaChallengeSchema,
+  stepUpGrantSchema,
+  approvalKindSchema,
+  approvalStatusSchema,
+  fieldChangeSchema,
+  approvalRequestSchema,
+  auditEventTypeSchema,
+  auditEventSchema,
+  tenantConfigSchema,
+} from './schemas';
+import type { LifecycleAction } from '../lib/account-lifecycle';
+import type { Money } from '../lib/money';
+
+export type User = z.infer<typeof userSchema>;
+
+export type AccountType = z.infer<typeof accountTypeSchema>;
+
+export type AccountStatus = z.infer<typeof accountStatusSchema>;
+
+export type BankAccount = z.infer<typeof bankAccountSchema>;
+
+export type PagedResponse<T> = z.infer<typeof pageMetadataSchema> & {
+  content: T[];
+};
+
+export type TransactionType = z.infer<typeof transactionTypeSchema>;
+
+export type Transaction = z.infer<typeof transactionSchema>;
+
+export interface TransactionFilters {
+  from?: string;
+  to?: string;
+  /** Exact decimal strings, like other amounts sent to the API. */
+  minAmount?: string;
+  maxAmount?: string;
+  type?: TransactionType;
 }
 
-export interface BankAccount {
-  accountId: string;
-  userId: string;
-  accountType: string;
-  balance: number;
-  accountName: string;
-  status: string;
+export interface TransferRequest {
+  sourceAccountId: string;
+  destinationAccountId: string;
+  amount: Money;
+  memo: string;
 }
 
-export interface PagedResponse<T> {
-  content: T[];
+export type TransferReceipt = z.infer<typeof transferReceiptSchema>;
+
+export type UserSort = 'userId,asc' | 'userId,desc';
+
+export interface UserQueryParams {
   page: number;
   size: number;
-  totalElements: number;
-  totalPages: number;
-  first: boolean;
-  last: boolean;
+  search?: string;
+  sort?: UserSort;
+}
+
+export type BalancePoint = z.infer<typeof balancePointSchema>;
+
+export interface DateRangeParams {
+  from: string;
+  to: string;
+}
+
+export interface CreateAccountRequest {
+  userId: string;
+  accountType: AccountType;
+  accountName: string;
+  currency: string;
+  initialDeposit?: {
+    sourceAccountId: string;
+    amount: Money;
+  };
+}
+
+export interface LifecycleRequest {
+  reasonCode: string;
+  note: string;
+}
+
+export interface CloseAccountRequest extends LifecycleRequest {
+  sweepToAccountId?: string;
 }
+
+export type OperatorRole = z.infer<typeof operatorRoleSchema>;
+
+export type Operator = z.infer<typeof operatorSchema>;
+
+export type AuthTokens = z.infer<typeof authTokensSchema>;
+
+export type MfaChallenge = z.infer<typeof mfaChallengeSchema>;
+
+export type StepUpGrant = z.infer<typeof stepUpGrantSchema>;
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface MfaVerifyRequest {
+  challengeId: string;
+  code: string;
+  rememberDevice: boolean;
+}
+
+export interface StepUpOptions {
+  /** Proof of a recent second-factor check, required for money movement and closures. */
+  stepUpToken: string;
+}
+
+export type ApprovalKind = z.infer<typeof approvalKindSchema>;
+
+export type ApprovalStatus = z.infer<typeof approvalStatusSchema>;
+
+export type FieldChange = z.infer<typeof fieldChangeSchema>;
+
+export type ApprovalRequest = z.infer<typeof approvalRequestSchema>;
+
+/** What an initiator (the maker) asks a checker to approve. */
+export type ApprovalSubmission =
+  | { kind: 'TRANSFER'; transfer: TransferRequest }
+  | { kind: 'ACCOUNT_CLOSURE'; accountId: string; request: CloseAccountRequest }
+  | {
+      kind: 'STATUS_OVERRIDE';
+      accountId: string;
+      action: Exclude<LifecycleAction, 'close'>;
+      request: LifecycleRequest;
+    };
+
+export interface ApprovalDecision {
+  decision: 'APPROVE' | 'REJECT';
+  comment: string;
+}
+
+export type AuditEventType = z.infer<typeof auditEventTypeSchema>;
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+/** Whose history to show: everything touching a customer, or one account. */
+export type AuditScope = { type: 'user'; userId: string } | { type: 'account'; accountId: string };
+
+export interface AuditFilters {
+  from?: string;
+  to?: string;
+  eventType?: AuditEventType;
+  /** Matches the actor's username. */
+  actor?: string;
+}
+
+export type TenantConfig = z.infer<typeof tenantConfigSchema>;
@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import { Money, MoneyError, parseMoney } from '../lib/money';
+import { getTenant } from '../services/tenant';
+
+const isoDateTime = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO-8601 date-time');
+
+// Amounts arrive as decimal strings; JSON numbers from older endpoints are
+// still accepted. Either way they are parsed exactly into minor units.
+const decimalAmount = z.union([z.string(), z.number()]);
+
+const isoCurrencyCode = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code');
+
+// Amounts sent without a currency are in the bank's own currency. Resolved at
+// parse time, since the tenant loads after this module and can be switched.
+const currencyCode = isoCurrencyCode.default(() => getTenant().currency);
+
+const toMoney = <T>(ctx: z.RefinementCtx<T>, path: string, value: string | number, currency: string): Money => {
+  try {
+    return parseMoney(value, currency);
+  } catch (error) {
+    if (!(error instanceof MoneyError)) {
+      throw error;
+    }
+    ctx.addIssue({ code: 'custom', path: [path], message: error.message, input: value });
+    return z.NEVER;
+  }
+};
+
+export const userSchema = z.object({
+  userId: z.string(),
+});
+
+export const accountTypeSchema = z.enum([
+  'CHECKING',
+  'SAVINGS',
+  'CREDIT',
+  'LOAN',
+  'MORTGAGE',
+  'BROKERAGE',
+  'UNKNOWN',
+]);
+
+export const accountStatusSchema = z.enum(['ACTIVE', 'FROZEN', 'CLOSED', 'PENDING', 'UNKNOWN']);
+
+const normalizeCode = (value: unknown) => (typeof value === 'string' ? value.trim().toUpperCase() : value);
+
+// Codes this client does not know yet parse as UNKNOWN rather than failing the
+// whole response, so the backend can roll out a new type before the UI does.
+export const bankAccountSchema = z
+  .object({
+    accountId: z.string(),
+    userId: z.string(),
+    accountType: z.preprocess(normalizeCode, accountTypeSchema).catch('UNKNOWN'),
+    balance: decimalAmount,
+    currency: currencyCode,
+    accountName: z.string(),
+    status: z.preprocess(normalizeCode, accountStatusSchema).catch('UNKNOWN'),
+    openedAt: isoDateTime.nullish(),
+    interestRate: z.number().nullish(),
+  })
+  .transform(({ balance, currency, ...account }, ctx) => ({
+    ...account,
+    balance: toMoney(ctx, 'balance', balance, currency),
+  }));
+
+export const pageMetadataSchema = z.object({
+  page: z.number().int(),
+  size: z.number().int(),
+  totalElements: z.number().int(),
+  totalPages: z.number().int(),
+  first: z.boolean(),
+  last: z.boolean(),
+});
+
+export const pagedResponseSchema = <T extends z.ZodType>(itemSchema: T) =>
+  pageMetadataSchema.extend({
+    content: z.array(itemSchema),
+  });
+
+export const transactionTypeSchema = z.enum([
+  'DEPOSIT',
+  'WITHDRAWAL',
+  'TRANSFER_IN',
+  'TRANSFER_OUT',
+  'PAYMENT',
+  'FEE',
+  'INTEREST',
+]);
+
+export const transactionSchema = z
+  .object({
+    transactionId: z.string(),
+    accountId: z.string(),
+    type: transactionTypeSchema,
+    amount: decimalAmount,
+    balanceAfter: decimalAmount,
+    currency: currencyCode,
+    description: z.string(),
+    timestamp: isoDateTime,
+  })
+  .transform(({ amount, balanceAfter, currency, ...transaction }, ctx) => ({
+    ...transaction,
+    amount: toMoney(ctx, 'amount', amount, currency),
+    balanceAfter: toMoney(ctx, 'balanceAfter', balanceAfter, currency),
+  }));
+
+export const transferReceiptSchema = z
+  .object({
+    referenceId: z.string(),
+    sourceAccountId: z.string(),
+    destinationAccountId: z.string(),
+    amount: decimalAmount,
+    currency: currencyCode,
+    memo: z.string(),
+    status: z.string(),
+    createdAt: isoDateTime,
+  })
+  .transform(({ amount, currency, ...receipt }, ctx) => ({
+    ...receipt,
+    amount: toMoney(ctx, 'amount', amount, currency),
+  }));
+
+export const balancePointSchema = z
+  .object({
+    date: isoDateTime,
+    balance: decimalAmount,
+    currency: currencyCode,
+  })
+  .transform(({ balance, currency, ...point }, ctx) => ({
+    ...point,
+    balance: toMoney(ctx, 'balance', balance, currency),
+  }));
+
+export const fxRatesSchema = z.object({
+  base: currencyCode,
+  rates: z.record(z.string(), z.number().positive()),
+});
+
+export const operatorRoleSchema = z.enum(['VIEWER', 'TELLER', 'SUPERVISOR', 'ADMIN']);
+
+export const operatorSchema = z.object({
+  username: z.string(),
+  displayName: z.string(),
+  // A missing or unrecognised role gets the least privilege, never more.
+  role: z.preprocess(normalizeCode, operatorRoleSchema).catch('VIEWER'),
+});
+
+export const authTokensSchema = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().min(1),
+  expiresIn: z.number().int().positive(),
+  operator: operatorSchema,
+  // Issued after an MFA verification that asked to remember the device.
+  deviceToken: z.string().min(1).nullish(),
+});
+
+export const mfaChallengeSchema = z.object({
+  challengeId: z.string(),
+  method: z.enum(['TOTP', 'SMS']),
+  /** Masked phone number for SMS, e.g. "•••• 1234". */
+  destination: z.string().nullish(),
+  codeLength: z.number().int().min(4).max(10).default(6),
+  /** Seconds until another SMS may be sent. */
+  resendAfter: z.number().int().nonnegative().default(30),
+});
+
+export const loginResponseSchema = z.union([
+  z.object({ mfaRequired: z.literal(true), challenge: mfaChallengeSchema }),
+  authTokensSchema,
+]);
+
+export const stepUpGrantSchema = z.object({
+  stepUpToken: z.string().min(1),
+  expiresIn: z.number().int().positive(),
+});
+
+export const approvalKindSchema = z.enum(['TRANSFER', 'ACCOUNT_CLOSURE', 'STATUS_OVERRIDE', 'UNKNOWN']);
+
+export const approvalStatusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED', 'UNKNOWN']);
+
+/** One changed field, e.g. in an approval diff; values arrive formatted for display. */
+export const fieldChangeSchema = z.object({
+  field: z.string(),
+  label: z.string(),
+  before: z.string().nullish(),
+  after: z.string().nullish(),
+});
+
+const actorSchema = operatorSchema.pick({ username: true, displayName: true });
+
+export const approvalRequestSchema = z.object({
+  approvalId: z.string(),
+  kind: z.preprocess(normalizeCode, approvalKindSchema).catch('UNKNOWN'),
+  status: z.preprocess(normalizeCode, approvalStatusSchema).catch('UNKNOWN'),
+  summary: z.string(),
+  userId: z.string(),
+  accountId: z.string(),
+  changes: z.array(fieldChangeSchema),
+  initiatedBy: actorSchema,
+  createdAt: isoDateTime,
+  reviewedBy: actorSchema.nullish(),
+  reviewedAt: isoDateTime.nullish(),
+  reviewComment: z.string().nullish(),
+});
+
+export const auditEventTypeSchema = z.enum([
+  'ACCOUNT_OPENED',
+  'STATUS_CHANGE',
+  'TRANSFER',
+  'RENAME',
+  'LOGIN',
+  'APPROVAL',
+  'UNKNOWN',
+]);
+
+export const auditEventSchema = z.object({
+  eventId: z.string(),
+  eventType: z.preprocess(normalizeCode, auditEventTypeSchema).catch('UNKNOWN'),
+  timestamp: isoDateTime,
+  actor: actorSchema,
+  userId: z.string().nullish(),
+  accountId: z.string().nullish(),
+  description: z.string(),
+  changes: z.array(fieldChangeSchema).default([]),
+  /** Correlates the event with server logs for the request that caused it. */
+  requestId: z.string().nullish(),
+});
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #rrggbb color');
+
+// Tenant configuration is bundled JSON rather than an API response, so it is
+// validated strictly: a typo should fail at startup, not render a blank name.
+export const tenantConfigSchema = z.object({
+  tenantId: z.string().min(1),
+  bankName: z.string().min(1),
+  /** Image URL for the header logo; the built-in bank icon is used when absent. */
+  logoUrl: z.string().optional(),
+  colors: z.object({
+    primary: hexColor,
+    /** Lighter variant for dark mode; defaults to `primary`. */
+    primaryDark: hexColor.optional(),
+  }),
+  locale: z.string().default('en-US'),
+  currency: isoCurrencyCode,
+  /** Transfer amounts, keyed by ISO currency, above which a second operator must approve. */
+  transferApprovalThresholds: z.record(
+    z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code'),
+    z.string().regex(/^\d+(\.\d+)?$/, 'Expected a decimal amount')
+  ),
+  support: z.object({
+    email: z.email(),
+    phone: z.string().optional(),
+    hours: z.string().optional(),
+  }),
+  legal: z.object({
+    /** `{year}` is replaced with the current year. */
+    footer: z.string(),
+    disclaimer: z.string().optional(),
+  }),
+  /** Institution IDs that accounting software expects in OFX/QFX files. */
+  ofx: z.object({
+    org: z.string(),
+    fid: z.string(),
+    /** Intuit bank ID, written only to QFX (Quicken) files. */
+    intuitBid: z.string(),
+  }),
+});
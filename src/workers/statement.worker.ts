@@ -0,0 +1,18 @@
+import { buildStatementFile, type StatementData, type StatementFile, type StatementFormat } from "@/lib/statement"
+
+export interface StatementJob {
+  format: StatementFormat
+  data: StatementData
+}
+
+export type StatementJobResult = { ok: true; file: StatementFile } | { ok: false; message: string }
+
+self.onmessage = (event: MessageEvent<StatementJob>) => {
+  let result: StatementJobResult
+  try {
+    result = { ok: true, file: buildStatementFile(event.data.format, event.data.data) }
+  } catch (error) {
+    result = { ok: false, message: error instanceof Error ? error.message : "Failed to build statement" }
+  }
+  self.postMessage(result)
+}